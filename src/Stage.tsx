@@ -4,25 +4,63 @@ import {StageBase, type StageResponse, type InitialData, type Message} from "@ch
 import type {LoadResponse} from "@chub-ai/stages-ts/dist/types/load";
 import {DEFAULT_CONFIG, normalizeConfig, NormalizedConfig, type ConfigSchema} from "./config_schema";
 import {
+    analyzeUserMessage,
     detectConsentIssues,
     detectDrift,
     detectEscalationSignals,
     detectMemoryEvents,
+    detectPostRegressionCarryOn,
     evaluateEmotionalDelta,
+    evaluatePhaseRegression,
     evaluateProximityTransition,
     extractEmotionSnapshot,
+    maskRecollections,
     recallMemoryScar,
+    recollectionCallbacks,
+    RELATIONSHIP_AXES,
+    scoreConsentIssues,
     scoreUnresolvedBeatReminder,
     scoreSilenceOrPause,
     scoreSubtext,
     summarizeScene,
+    createRelationshipAxes,
+    createRelationshipState,
+    describeContinuityBreak,
+    describeObjectConflict,
+    describeRushedPhase,
+    detectAxisMismatch,
+    detectBoundaryViolations,
+    detectStopIntent,
+    detectSleep,
+    detectTravel,
+    evaluatePhasePacing,
+    seedEmotionBaseline,
+    storyTimeAdvance,
+    updateEmotionBaseline,
+    updateRelationshipAxes,
     updateSceneFromMessage,
+    type EmotionBaseline,
     type EmotionSnapshot,
+    type MemoryScar,
     type PhaseHistoryEntry,
+    type PhasePacing,
+    type PhaseRegressionState,
     type Proximity,
     type ProximityHistoryEntry,
+    type RecollectionCallback,
+    type RelationshipAxes,
+    type RelationshipPhase,
+    type RelationshipState,
     type SceneState,
+    type StopIntent,
+    type TimeHint,
 } from "./analysis_helpers";
+import {boundaryProximity, describeBoundary, formatBoundarySummary, isBoundaryActive, normalizeBoundaries, type Boundary} from "./boundaries";
+import {seedFromCard, type CardHistory} from "./card_seed";
+import {applyCommandOverrides, parseRealismCommands, type CommandOverrides, type RealismCommand} from "./commands";
+import {formatSkipWarning, ladderPhaseFor, resolveLadder, type RelationshipLadder} from "./ladders";
+import {ceilingPhaseIndex, clampProximity, formatFadeToBlack, nearCeiling, ratingBoundaries, ratingCeiling} from "./ratings";
+import {detectLanguage, resolveLexicon, type CompiledLexicon, type LexiconLanguage} from "./lexicon";
 
 /***
  The type that this stage persists message-level state in.
@@ -35,16 +73,36 @@ import {
  ***/
 type MessageStateType = {
     lastEmotions?: EmotionSnapshot[]; // bounded array of recent message emotions
-    memoryScars?: Array<{event: string; text: string; at: number}>; // append-only emotional events
+    lastUserEmotions?: EmotionSnapshot[]; // bounded array of recent user-message emotions
+    // What the user's latest turn set up; the following bot reply is judged against it.
+    lastUserMove?: {forTurn: number; snapshot: EmotionSnapshot; signals: string[]; scars: string[]; proximity: Proximity; travel?: string | null; time?: TimeHint | null} | null;
+    memoryScars?: MemoryScar[]; // append-only emotional events
     lastScarRecallIdx?: number;
     proximity?: Proximity;
-    phase?: "Neutral" | "Familiar" | "Charged" | "Intimate";
+    phase?: RelationshipPhase;
     proximityHistory?: ProximityHistoryEntry[];
+    phaseRegression?: PhaseRegressionState | null;
+    lastSignalTurn?: number;
+    lastRegressionTurn?: number;
+    pacing?: PhasePacing | null; // pacing of the latest phase advance against the ladder's dwell budget
+    storyMinutes?: number; // in-story minutes elapsed, advanced by narrated time skips
+    commandOverrides?: CommandOverrides; // set by `((realism: ...))` commands in user messages
+    // Set when the user sends a safe word or stop phrase; freezes phase advancement until `((realism: resume))`
+    // (a stop phrase also lifts after `STOP_PHRASE_HOLD_TURNS` replies).
+    safetyStop?: {at: number; turn: number; kind: StopIntent['kind']; trigger: string} | null;
+    callbacks?: RecollectionCallback[]; // recalled moments linked to earlier scars/milestones
+    emotionBaseline?: EmotionBaseline; // rolling tone/intensity normal of the active character
+    axes?: RelationshipAxes; // trust/attraction/tension/comfort, 0..100
     consentAlerts?: number[];
+    detectedLanguage?: LexiconLanguage; // last confident guess when `language` is 'auto'
     silenceHistory?: number[];
     driftNotes?: number[];
     overlayNotes?: Array<{text: string; at: number}>;
     pendingPromptNotes?: {at: number; fromTurn: number; parts: string[]} | null;
+    // Per-character relationship state keyed by bot `anonymizedId`. The top-level relationship
+    // fields (phase, proximity, scars, ...) always mirror the active character.
+    relationships?: Record<string, RelationshipState>;
+    activeCharacterId?: string | null;
     noteQuotaHistory?: number[];
     lastUnresolvedBeatReminderTurn?: number;
     // For reminder cooldown/dedupe (id is stable across sessions).
@@ -58,6 +116,23 @@ type MessageStateType = {
     [key: string]: any;
 };
 
+// Replies after which a safety stop raised by a lexicon stop phrase lifts by itself; safe words hold until resume.
+const STOP_PHRASE_HOLD_TURNS = 5;
+
+// Top-level message-state fields that belong to one character pairing (see `relationships`).
+const RELATIONSHIP_KEYS = [
+    'phase', 'proximity', 'phaseHistory', 'proximityHistory', 'signalHistory', 'lastEmotions', 'memoryScars', 'lastScarRecallIdx',
+    'phaseRegression', 'lastSignalTurn', 'lastRegressionTurn', 'pacing', 'callbacks', 'emotionBaseline', 'axes',
+] as const;
+
+function pickRelationshipState(state: MessageStateType): RelationshipState {
+    const out: any = createRelationshipState();
+    for (const k of RELATIONSHIP_KEYS) {
+        if (state[k] != null) out[k] = state[k];
+    }
+    return out as RelationshipState;
+}
+
 /***
  The type of the stage-specific configuration of this stage.
 
@@ -122,7 +197,8 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             users,
             config,
             messageState,
-            chatState
+            chatState,
+            initState,
         } = data;
         // Null-safe config handling
         const mergedConfig: NormalizedConfig = normalizeConfig(config);
@@ -132,7 +208,7 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             lastEmotions: [],
             memoryScars: [],
             proximity: "Distant",
-            phase: "Neutral",
+            phase: resolveLadder(mergedConfig.relationship_ladder, mergedConfig.relationship_ladders).ladder.phases[0],
             overlayNotes: [],
         };
         this.myInternalState['numUsers'] = users ? Object.keys(users).length : 0;
@@ -141,6 +217,296 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
         (this as any)._effectiveConfig = mergedConfig;
         // initialize chatState holder
         (this as any)._chatState = chatState || {scene: null};
+        // keep the roster for per-character labels
+        (this as any)._characters = characters || {};
+        (this as any)._users = users || {};
+        // load() seeds the opening scene once per chat, and the relationship only before the first message
+        (this as any)._initState = initState || null;
+        (this as any)._freshChat = messageState == null;
+    }
+
+    /***
+     Swap the stored relationship state of `characterId` into the top-level fields.
+     Legacy state without an active character is adopted by the first character seen.
+     ***/
+    private activateCharacter(characterId: string | null): void {
+        if (characterId == null) return;
+        const state = this.myInternalState;
+        const activeId = state.activeCharacterId ?? null;
+        if (activeId === characterId) return;
+        const relationships = {...(state.relationships || {})};
+        if (activeId != null) relationships[activeId] = pickRelationshipState(state);
+        const stored = relationships[characterId];
+        if (activeId != null || stored) {
+            const floor = this.activeLadder((this as any)._effectiveConfig || DEFAULT_CONFIG).phases[0];
+            const next: RelationshipState = {...createRelationshipState(floor), ...(stored || {})};
+            for (const k of RELATIONSHIP_KEYS) (state as any)[k] = (next as any)[k];
+        }
+        state.relationships = relationships;
+        state.activeCharacterId = characterId;
+    }
+
+    private storeActiveRelationship(): void {
+        const activeId = this.myInternalState.activeCharacterId;
+        if (activeId == null) return;
+        this.myInternalState.relationships = {
+            ...(this.myInternalState.relationships || {}),
+            [activeId]: pickRelationshipState(this.myInternalState),
+        };
+    }
+
+    // Built-in lexicon for the message language merged with configured `lexicon_packs`;
+    // pack errors are warned once per distinct set.
+    private activeLexicon(config: NormalizedConfig, content: string): CompiledLexicon {
+        let language: LexiconLanguage;
+        if (config.language !== 'auto') {
+            language = config.language;
+        } else {
+            const detected = detectLanguage(content);
+            if (detected) this.myInternalState.detectedLanguage = detected;
+            language = this.myInternalState.detectedLanguage || 'en';
+        }
+        const {lexicon, errors} = resolveLexicon(config.lexicon_packs, language);
+        const errorKey = errors.join('\n');
+        if (errors.length > 0 && (this as any)._lexiconErrorKey !== errorKey) {
+            (this as any)._lexiconErrorKey = errorKey;
+            console.warn('[romance-realism] lexicon pack errors:', errors);
+        }
+        return lexicon;
+    }
+
+    // Configured relationship ladder; ladder errors are warned once per distinct set.
+    private activeLadder(config: NormalizedConfig): RelationshipLadder {
+        const {ladder, errors} = resolveLadder(config.relationship_ladder, config.relationship_ladders);
+        const errorKey = errors.join('\n');
+        if (errors.length > 0 && (this as any)._ladderErrorKey !== errorKey) {
+            (this as any)._ladderErrorKey = errorKey;
+            console.warn('[romance-realism] relationship ladder errors:', errors);
+        }
+        return ladder;
+    }
+
+    private activeBoundaries(config: NormalizedConfig): Boundary[] {
+        const {boundaries, errors} = normalizeBoundaries(config.boundaries);
+        const errorKey = errors.join('\n');
+        if (errors.length > 0 && (this as any)._boundaryErrorKey !== errorKey) {
+            (this as any)._boundaryErrorKey = errorKey;
+            console.warn('[romance-realism] boundary errors:', errors);
+        }
+        return boundaries;
+    }
+
+    /***
+     Apply `((realism: ...))` commands to message state (branch-safe) and acknowledge them in the overlay.
+     ***/
+    private applyRealismCommands(commands: RealismCommand[], errors: string[], config: NormalizedConfig): void {
+        const state = this.myInternalState;
+        const overrides: CommandOverrides = {...(state.commandOverrides || {})};
+        const acks: string[] = [];
+        const now = Date.now();
+        for (const command of commands) {
+            switch (command.kind) {
+                case 'pause':
+                    overrides.paused = true;
+                    state.pendingPromptNotes = null;
+                    acks.push('paused (send ((realism: resume)) to continue)');
+                    break;
+                case 'resume':
+                    overrides.paused = false;
+                    acks.push(state.safetyStop ? 'resumed (safety stop lifted)' : 'resumed');
+                    state.safetyStop = null;
+                    break;
+                case 'strictness':
+                    overrides.strictness = command.level;
+                    acks.push(`strictness ${command.level}`);
+                    break;
+                case 'mute':
+                    overrides.muted = Array.from(new Set([...(overrides.muted || []), command.detector]));
+                    acks.push(`muted ${command.detector}`);
+                    break;
+                case 'unmute':
+                    overrides.muted = (overrides.muted || []).filter((d) => d !== command.detector);
+                    acks.push(`unmuted ${command.detector}`);
+                    break;
+                case 'phase': {
+                    const ladder = this.activeLadder(config);
+                    const rung = ladder.phases.find((p) => p.toLowerCase() === command.phase.toLowerCase());
+                    if (!rung) {
+                        acks.push(`unknown phase "${command.phase}" (${ladder.phases.join(' → ')})`);
+                        break;
+                    }
+                    const ceiling = ratingCeiling(config.content_rating);
+                    if (ceiling && ladder.phases.indexOf(rung) > ceilingPhaseIndex(ceiling, ladder)) {
+                        acks.push(`phase ${rung} is above the ${ceiling.rating} content ceiling`);
+                        break;
+                    }
+                    const before = state.phase && ladder.phases.includes(state.phase) ? state.phase : ladder.phases[0];
+                    if (rung !== before) {
+                        state.phase = rung;
+                        state.phaseHistory = (state.phaseHistory || []).concat([{
+                            phase: rung,
+                            at: now,
+                            direction: ladder.phases.indexOf(rung) > ladder.phases.indexOf(before) ? 'up' : 'down',
+                            reason: 'set by user',
+                            turn: state.turnIndex || 0,
+                            storyMinutes: state.storyMinutes || 0,
+                        }]).slice(-50);
+                    }
+                    // A manual phase replaces whatever the detectors were building toward.
+                    state.phaseRegression = null;
+                    state.signalHistory = [];
+                    acks.push(`phase set to ${rung}`);
+                    break;
+                }
+                case 'limit': {
+                    const ladder = this.activeLadder(config);
+                    const boundary: Boundary = {topic: command.topic, level: command.level};
+                    if (command.before) {
+                        const rung = ladder.phases.find((p) => p.toLowerCase() === command.before!.toLowerCase());
+                        const proximity = rung ? null : boundaryProximity(command.before);
+                        if (!rung && !proximity) {
+                            acks.push(`unknown phase or proximity "${command.before}" (${ladder.phases.join(' → ')})`);
+                            break;
+                        }
+                        if (rung) boundary.untilPhase = rung;
+                        if (proximity) boundary.untilProximity = proximity;
+                    }
+                    const current = overrides.boundaries || this.activeBoundaries(config);
+                    overrides.boundaries = normalizeBoundaries([...current.filter((b) => b.topic !== boundary.topic), boundary]).boundaries;
+                    acks.push(`${boundary.level} limit: ${describeBoundary(boundary)}`);
+                    break;
+                }
+                case 'unlimit': {
+                    const current = overrides.boundaries || this.activeBoundaries(config);
+                    const next = command.topic ? current.filter((b) => b.topic !== command.topic) : [];
+                    acks.push(next.length < current.length
+                        ? (command.topic ? `limit on ${command.topic.replace(/_/g, ' ')} lifted` : 'all limits lifted')
+                        : `no limit on ${(command.topic || 'anything').replace(/_/g, ' ')}`);
+                    overrides.boundaries = next;
+                    break;
+                }
+                case 'resolve_beat': {
+                    const chat: ChatStateType = (this as any)._chatState || {scene: null};
+                    const beats = chat.scene?.unresolvedBeats || [];
+                    if (beats.length === 0) {
+                        acks.push('no unresolved beats');
+                        break;
+                    }
+                    const resolved = command.all ? beats : beats.slice(-1);
+                    (this as any)._chatState = {
+                        ...chat,
+                        scene: {
+                            ...chat.scene,
+                            unresolvedBeats: command.all ? [] : beats.slice(0, -1),
+                            resolvedBeats: (chat.scene?.resolvedBeats || []).concat(resolved.map((b) => ({...b, lastSeenAt: now}))).slice(-20),
+                        },
+                    };
+                    acks.push(resolved.length === 1 ? `resolved beat “${resolved[0].snippet}”` : `resolved ${resolved.length} beats`);
+                    break;
+                }
+            }
+        }
+        state.commandOverrides = overrides;
+        const maxNotes = typeof config.ui_max_notes === 'number' ? config.ui_max_notes : this.defaultConfig.ui_max_notes;
+        state.overlayNotes = (state.overlayNotes || [])
+            .concat([{text: `Realism command: ${acks.concat(errors).join('; ')}`, at: now}])
+            .slice(-maxNotes);
+        this.storeActiveRelationship();
+    }
+
+    // Name of the active character, only when several characters share the chat.
+    private activeCharacterLabel(): string | null {
+        const activeId = this.myInternalState.activeCharacterId;
+        if (activeId == null) return null;
+        const present = Object.values((this as any)._characters || {}).filter((c: any) => c && !c.isRemoved) as any[];
+        if (present.length <= 1) return null;
+        const match = present.find((c) => c.anonymizedId === activeId);
+        const name = match && typeof match.name === 'string' ? match.name.trim() : '';
+        return name.length > 0 ? name : null;
+    }
+
+    // Names of the characters in the chat; presence tracking follows their entrances and exits.
+    private castNames(): string[] {
+        return Object.values((this as any)._characters || {})
+            .filter((c: any) => c && !c.isRemoved && typeof c.name === 'string' && c.name.trim())
+            .map((c: any) => c.name.trim());
+    }
+
+    // Card of the active character (or the only one present); used to seed per-character baselines.
+    private activeCharacterCard(): any | null {
+        const present = Object.values((this as any)._characters || {}).filter((c: any) => c && !c.isRemoved) as any[];
+        const activeId = this.myInternalState.activeCharacterId;
+        const match = activeId != null ? present.find((c) => c.anonymizedId === activeId) : null;
+        return match || (present.length === 1 ? present[0] : null);
+    }
+
+    /***
+     Opening state from the character cards: the scene from the scenario and first message (kept as
+     `initialScene` and copied into an empty chat state) and, for a chat with no messages yet, the relationship
+     history each card states about the user.
+     ***/
+    private seedOpeningState(): InitStateType {
+        const config: NormalizedConfig = (this as any)._effectiveConfig || DEFAULT_CONFIG;
+        const saved: InitStateType | null = (this as any)._initState;
+        const now = Date.now();
+        const cards = Object.values((this as any)._characters || {}).filter((c: any) => c && !c.isRemoved) as any[];
+        const userName = (Object.values((this as any)._users || {}) as any[])
+            .map((u) => (u && typeof u.name === 'string' ? u.name.trim() : ''))
+            .find(Boolean) || null;
+        const cast = this.castNames();
+        const seeds = cards.map((card) => {
+            const text = [card.scenario, card.first_message, card.description].filter((s) => typeof s === 'string').join('\n');
+            return {card, seed: seedFromCard(card, {userName, lexicon: this.activeLexicon(config, text), cast, now})};
+        });
+
+        const initState: InitStateType = saved && saved.initialScene !== undefined ? saved : {
+            ...(saved || {}),
+            createdAt: saved?.createdAt || new Date(now).toISOString(),
+            initialScene: seeds.map((s) => s.seed.scene).find(Boolean) || null,
+        };
+        (this as any)._initState = initState;
+        const chatState: ChatStateType = (this as any)._chatState || {scene: null};
+        if (!chatState.scene && initState.initialScene) (this as any)._chatState = {...chatState, scene: initState.initialScene};
+
+        if ((this as any)._freshChat) {
+            (this as any)._freshChat = false;
+            for (const {card, seed} of seeds) {
+                if (seed.history) this.seedRelationship(card.anonymizedId ?? null, seed.history, config, now);
+            }
+        }
+        return initState;
+    }
+
+    // Start a character's relationship at the card's history, clamped to the active ladder and content rating.
+    private seedRelationship(characterId: string | null, history: CardHistory, config: NormalizedConfig, now: number): void {
+        const ladder = this.activeLadder(config);
+        const ceiling = ratingCeiling(config.content_rating);
+        let rung = ladderPhaseFor(ladder, {type: history.kind, suggestedPhase: history.phase});
+        if (ceiling && ladder.phases.indexOf(rung) > ceilingPhaseIndex(ceiling, ladder)) rung = ladder.phases[ceilingPhaseIndex(ceiling, ladder)];
+        this.activateCharacter(characterId);
+        const state = this.myInternalState;
+        if (rung !== ladder.phases[0]) {
+            state.phase = rung;
+            state.phaseHistory = [{
+                phase: rung,
+                at: now,
+                direction: 'up',
+                reason: `card history: ${history.kind.replace(/_/g, ' ')}`,
+                turn: 0,
+                storyMinutes: 0,
+                seeded: true,
+            }];
+        }
+        const proximity = history.proximity ? clampProximity(history.proximity, ceiling) : null;
+        if (proximity && proximity !== 'Distant') {
+            state.proximity = proximity;
+            state.proximityHistory = [{state: proximity, at: now, direction: 'forward'}];
+        }
+        if (history.scar) {
+            state.memoryScars = (state.memoryScars || []).concat([history.scar]);
+            state.axes = updateRelationshipAxes(state.axes || createRelationshipAxes(), {content: '', scarEvents: [history.scar.event]}).axes;
+        }
+        this.storeActiveRelationship();
     }
 
     async load(): Promise<Partial<LoadResponse<InitStateType, ChatStateType, MessageStateType>>> {
@@ -148,6 +514,7 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
          This is called immediately after the constructor, in case there is some asynchronous code you need to
          run on instantiation.
          ***/
+        const initState = this.seedOpeningState();
         return {
             /*** @type boolean @default null
              @description The 'success' boolean returned should be false IFF (if and only if), some condition is met that means
@@ -158,8 +525,8 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             /*** @type null | string @description an error message to show
              briefly at the top of the screen, if any. ***/
             error: null,
-            initState: null,
-            chatState: null,
+            initState,
+            chatState: (this as any)._chatState,
             // Provide an initial state so hosts have a registry entry even before the first message.
             messageState: {...this.myInternalState},
             state: {...this.myInternalState},
@@ -178,7 +545,7 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             if (!Array.isArray(this.myInternalState.overlayNotes)) this.myInternalState.overlayNotes = [];
             // Never carry pending prompt injections across branch navigation.
             this.myInternalState.pendingPromptNotes = null;
-            const effectiveConfig = normalizeConfig((this as any).config);
+            const effectiveConfig = applyCommandOverrides(normalizeConfig((this as any).config), this.myInternalState.commandOverrides);
             (this as any)._effectiveConfig = effectiveConfig;
             const maxNotes = typeof effectiveConfig.ui_max_notes === 'number' ? effectiveConfig.ui_max_notes : this.defaultConfig.ui_max_notes;
             if (Array.isArray(this.myInternalState.overlayNotes)) {
@@ -192,20 +559,32 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             if (Array.isArray(this.myInternalState.lastEmotions)) {
                 this.myInternalState.lastEmotions = this.myInternalState.lastEmotions.slice(-5);
             }
+            if (Array.isArray(this.myInternalState.lastUserEmotions)) {
+                this.myInternalState.lastUserEmotions = this.myInternalState.lastUserEmotions.slice(-5);
+            }
+            if (this.myInternalState.relationships && typeof this.myInternalState.relationships === 'object') {
+                const capped: Record<string, RelationshipState> = {};
+                for (const [id, rel] of Object.entries(this.myInternalState.relationships)) {
+                    if (!rel || typeof rel !== 'object') continue;
+                    capped[id] = {
+                        ...rel,
+                        memoryScars: Array.isArray(rel.memoryScars) ? rel.memoryScars.slice(-depth) : [],
+                        lastEmotions: Array.isArray(rel.lastEmotions) ? rel.lastEmotions.slice(-5) : [],
+                    };
+                }
+                this.myInternalState.relationships = capped;
+            }
         }
     }
 
-    async beforePrompt(_userMessage: Message): Promise<Partial<StageResponse<ChatStateType, MessageStateType>>> {
+    async beforePrompt(userMessage: Message): Promise<Partial<StageResponse<ChatStateType, MessageStateType>>> {
         try {
             /***
              This is called after someone presses 'send', but before anything is sent to the LLM.
              ***/
-            const effectiveConfig = normalizeConfig((this as any).config);
-            (this as any)._effectiveConfig = effectiveConfig;
-            const strictnessLevel = typeof effectiveConfig.strictness === 'number'
-                ? Math.floor(effectiveConfig.strictness)
-                : 2;
-            if (!effectiveConfig.enabled) {
+            const baseConfig = normalizeConfig((this as any).config);
+            if (!baseConfig.enabled) {
+                (this as any)._effectiveConfig = baseConfig;
                 const currentChatState: ChatStateType | null = (this as any)._chatState || null;
                 return {
                     stageDirections: null,
@@ -216,11 +595,100 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                     chatState: currentChatState || null,
                 };
             }
+            const promptForId = (userMessage as any)?.promptForId;
+            this.activateCharacter(typeof promptForId === 'string' && promptForId.length > 0 ? promptForId : null);
+
+            // OOC commands are applied first and cut out of the message: the detectors and the model only see the rest.
+            const rawContent = typeof (userMessage as any)?.content === 'string' ? (userMessage as any).content : '';
+            const {commands, errors: commandErrors, stripped} = parseRealismCommands(rawContent);
+            const hasCommands = commands.length > 0 || commandErrors.length > 0;
+            if (hasCommands) this.applyRealismCommands(commands, commandErrors, baseConfig);
+            // A message of nothing but commands is left as sent rather than becoming a blank user turn.
+            const modifiedMessage = hasCommands && stripped.trim() ? stripped : null;
+            const effectiveConfig = applyCommandOverrides(baseConfig, this.myInternalState.commandOverrides);
+            (this as any)._effectiveConfig = effectiveConfig;
+            const strictnessLevel = typeof effectiveConfig.strictness === 'number'
+                ? Math.floor(effectiveConfig.strictness)
+                : 2;
             // Scene Carryover Anchor: attach concise system summary when scene is present
             const currentChatState: ChatStateType | null = (this as any)._chatState || null;
             // Notes should only render inside the stage UI (never injected into chat messages).
             this.myInternalState.lastBeforePromptAt = Date.now();
-            if (effectiveConfig.ui_enabled && effectiveConfig.note_scene_summary && strictnessLevel >= 2 && currentChatState && currentChatState.scene) {
+            const paused = Boolean(this.myInternalState.commandOverrides?.paused);
+            const userContent = stripped;
+
+            // A stop phrase is a lexicon guess, so its hold expires; a safe word is explicit and waits for resume.
+            const held = this.myInternalState.safetyStop;
+            if (held && held.kind === 'stop_intent' && (this.myInternalState.turnIndex || 0) - held.turn >= STOP_PHRASE_HOLD_TURNS) {
+                this.myInternalState.safetyStop = null;
+                const maxNotes = typeof effectiveConfig.ui_max_notes === 'number' ? effectiveConfig.ui_max_notes : this.defaultConfig.ui_max_notes;
+                this.myInternalState.overlayNotes = (this.myInternalState.overlayNotes || [])
+                    .concat([{text: `Safety stop ("${held.trigger}") lifted after ${STOP_PHRASE_HOLD_TURNS} replies.`, at: Date.now()}])
+                    .slice(-maxNotes);
+            }
+
+            // Safe word / stop phrase: replace any queued notes with a critical de-escalation note injected into
+            // this very prompt (even when paused or prompt injection is off), and freeze phase advancement.
+            const stop = detectStopIntent(userContent, effectiveConfig.safe_words, this.activeLexicon(effectiveConfig, userContent));
+            if (stop) {
+                const now = Date.now();
+                const turn = this.myInternalState.turnIndex || 0;
+                this.myInternalState.safetyStop = {at: now, turn, kind: stop.kind, trigger: stop.trigger};
+                this.myInternalState.pendingPromptNotes = {
+                    at: now,
+                    fromTurn: turn,
+                    parts: [`SAFETY STOP: the user asked to stop ("${stop.trigger}"). De-escalate now: no romantic, sexual or physical advances; step out of the intensity, check in with the user kindly, and follow their lead.`],
+                };
+                const maxNotes = typeof effectiveConfig.ui_max_notes === 'number' ? effectiveConfig.ui_max_notes : this.defaultConfig.ui_max_notes;
+                this.myInternalState.overlayNotes = (this.myInternalState.overlayNotes || [])
+                    .concat([{text: `Safety stop ("${stop.trigger}"): de-escalating and holding the phase. Send ((realism: resume)) to continue${stop.kind === 'stop_intent' ? ` (lifts by itself after ${STOP_PHRASE_HOLD_TURNS} replies)` : ''}.`, at: now}])
+                    .slice(-maxNotes);
+            }
+
+            // User-side analysis: the user's own move feeds phase signals, proximity and scars,
+            // so the next bot reply is judged against what the user actually set up.
+            if (!paused && userContent.trim().length > 0) {
+                const now = Date.now();
+                const userAnalysis = analyzeUserMessage(userContent, {
+                    proximity: this.myInternalState.proximity,
+                    tuning: {extraTerms: effectiveConfig.tune_emotion_extra, lexicon: this.activeLexicon(effectiveConfig, userContent)},
+                });
+                const slept = detectSleep(userContent, this.activeLexicon(effectiveConfig, userContent));
+                this.myInternalState.lastUserEmotions = (this.myInternalState.lastUserEmotions || []).concat(userAnalysis.snapshot).slice(-5);
+                if (userAnalysis.signals.length > 0) {
+                    this.myInternalState.signalHistory = (this.myInternalState.signalHistory || []).concat(userAnalysis.signals).slice(-20);
+                }
+                if (userAnalysis.scarEvents.length > 0) {
+                    const depth = effectiveConfig.memory_depth || this.defaultConfig.memory_depth;
+                    this.myInternalState.memoryScars = (this.myInternalState.memoryScars || []).concat(
+                        userAnalysis.scarEvents.map((e) => ({event: e, text: userContent.slice(0, 500), at: now, source: 'user' as const}))
+                    ).slice(-depth);
+                }
+                this.myInternalState.axes = updateRelationshipAxes(this.myInternalState.axes, {
+                    content: userContent,
+                    signals: userAnalysis.signals,
+                    scarEvents: userAnalysis.scarEvents,
+                }).axes;
+                if (userAnalysis.storyMinutes > 0) {
+                    this.myInternalState.storyMinutes = (this.myInternalState.storyMinutes || 0) + userAnalysis.storyMinutes;
+                }
+                const userProximity = clampProximity(userAnalysis.proximity.next, ratingCeiling(effectiveConfig.content_rating));
+                if (userAnalysis.proximity.changed && userProximity !== this.myInternalState.proximity) {
+                    this.myInternalState.proximity = userProximity;
+                    this.myInternalState.proximityHistory = (this.myInternalState.proximityHistory || []).concat([{state: userProximity, at: now, direction: userAnalysis.proximity.direction === 'retreat' ? 'retreat' : 'forward'}]).slice(-50);
+                }
+                this.myInternalState.lastUserMove = {
+                    forTurn: (this.myInternalState.turnIndex || 0) + 1,
+                    snapshot: userAnalysis.snapshot,
+                    signals: userAnalysis.signals.map((sig) => sig.type),
+                    scars: userAnalysis.scarEvents,
+                    proximity: userProximity,
+                    travel: detectTravel(userContent, this.activeLexicon(effectiveConfig, userContent)),
+                    time: userAnalysis.storyMinutes > 0 || slept ? {skip: userAnalysis.storyMinutes, slept} : null,
+                };
+                this.storeActiveRelationship();
+            }
+            if (!paused && effectiveConfig.ui_enabled && effectiveConfig.note_scene_summary && strictnessLevel >= 2 && currentChatState && currentChatState.scene) {
                 const summary = summarizeScene(currentChatState.scene);
                 if (summary) {
                     const note = `Scene summary: ${summary}`;
@@ -234,8 +702,21 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                 }
             }
 
+            // Limits that still hold are restated up front so the model avoids crossing them at all;
+            // near the content-rating ceiling a standing fade-to-black instruction joins them.
+            const ladder = this.activeLadder(effectiveConfig);
+            const standing = {phase: this.myInternalState.phase || ladder.phases[0], proximity: this.myInternalState.proximity || 'Distant' as const, ladder};
+            const boundarySummary = effectiveConfig.prompt_injection_enabled && !paused
+                ? formatBoundarySummary(this.activeBoundaries(effectiveConfig).filter((b) => isBoundaryActive(b, standing)))
+                : null;
+            const ceiling = ratingCeiling(effectiveConfig.content_rating);
+            const fadeToBlack = effectiveConfig.prompt_injection_enabled && !paused && ceiling && nearCeiling(ceiling, standing)
+                ? formatFadeToBlack(ceiling)
+                : null;
+
             let systemMessage: string | null = null;
-            if (effectiveConfig.prompt_injection_enabled && this.myInternalState.pendingPromptNotes && Array.isArray(this.myInternalState.pendingPromptNotes.parts)) {
+            const pendingParts = Array.isArray(this.myInternalState.pendingPromptNotes?.parts) ? this.myInternalState.pendingPromptNotes!.parts : [];
+            if ((effectiveConfig.prompt_injection_enabled || stop) && (pendingParts.length > 0 || boundarySummary || fadeToBlack)) {
                 const maxChars = typeof effectiveConfig.prompt_injection_max_chars === 'number'
                     ? effectiveConfig.prompt_injection_max_chars
                     : 900;
@@ -247,8 +728,10 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                     const summary = summarizeScene(currentChatState.scene);
                     if (summary) lines.push(`Scene: ${summary}`);
                 }
+                if (boundarySummary) lines.push(`Boundaries: ${boundarySummary}`);
+                if (fadeToBlack) lines.push(`Content rating: ${fadeToBlack}`);
                 // Always include footer; truncate bullets to fit.
-                const bullets = this.myInternalState.pendingPromptNotes.parts.map((p) => `- ${p}`);
+                const bullets = pendingParts.map((p) => `- ${p}`);
                 const fixedLen = lines.join("\n").length;
                 let currentLen = fixedLen;
                 let addedBullets = 0;
@@ -283,7 +766,7 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                 stageDirections: null,
                 messageState,
                 state: messageState,
-                modifiedMessage: null,
+                modifiedMessage,
                 systemMessage,
                 error: null,
                 chatState: currentChatState || null,
@@ -309,12 +792,13 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
              This is called immediately after a response from the LLM.
              ***/
             const content = typeof (botMessage as any)?.content === 'string' ? (botMessage as any).content : '';
-            const effectiveConfig = normalizeConfig((this as any).config);
+            const effectiveConfig = applyCommandOverrides(normalizeConfig((this as any).config), this.myInternalState.commandOverrides);
             (this as any)._effectiveConfig = effectiveConfig;
             const strictnessLevel = typeof effectiveConfig.strictness === 'number'
                 ? Math.floor(effectiveConfig.strictness)
                 : 2;
-            if (!effectiveConfig.enabled) {
+            // Paused via `((realism: pause))`: no analysis until resumed.
+            if (!effectiveConfig.enabled || this.myInternalState.commandOverrides?.paused) {
                 return {
                     stageDirections: null,
                     messageState: this.myInternalState,
@@ -324,6 +808,8 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                     chatState: (this as any)._chatState || null
                 };
             }
+            const characterId = (botMessage as any)?.anonymizedId;
+            this.activateCharacter(typeof characterId === 'string' && characterId.length > 0 ? characterId : null);
             const turnIndex = (this.myInternalState.turnIndex || 0) + 1;
             this.myInternalState.turnIndex = turnIndex;
             this.myInternalState.lastAfterResponseAt = Date.now();
@@ -359,21 +845,32 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
         };
 
         // Run lightweight analysis hooks (placeholders) that will be expanded later.
-        const snapshot: EmotionSnapshot = extractEmotionSnapshot(content, {extraTerms: effectiveConfig.tune_emotion_extra});
+        const lexicon = this.activeLexicon(effectiveConfig, content);
+        const snapshot: EmotionSnapshot = extractEmotionSnapshot(content, {extraTerms: effectiveConfig.tune_emotion_extra, lexicon});
         const priorEmotions = (this.myInternalState.lastEmotions || []);
 
+        // Recollections ("she remembers the night he kissed her") are excluded from state changes by the
+        // detectors; log them as callbacks to the scars/milestones they recall.
+        const recollections = maskRecollections(content, lexicon).spans;
+        if (recollections.length > 0) {
+            this.myInternalState.callbacks = (this.myInternalState.callbacks || []).concat(
+                recollectionCallbacks(recollections, this.myInternalState.memoryScars, lexicon)
+            ).slice(-20);
+        }
+
         // Memory scar system: detect key emotional events and log them
-        const scarEvents = detectMemoryEvents(content);
+        const scarEvents = detectMemoryEvents(content, lexicon);
         if (scarEvents.length > 0) {
             const now = Date.now();
             const depth = ((this as any)._effectiveConfig?.memory_depth) || this.defaultConfig.memory_depth;
             this.myInternalState.memoryScars = (this.myInternalState.memoryScars || []).concat(
-                scarEvents.map(e => ({event: e, text: content.slice(0, 500), at: now}))
+                scarEvents.map(e => ({event: e, text: content.slice(0, 500), at: now, source: 'bot' as const}))
             ).slice(-depth);
         }
 
         // Scene capture: update scene context heuristically from the bot message
         const prevChatState: ChatStateType | null = (this as any)._chatState || {scene: null};
+        const priorUserMove = this.myInternalState.lastUserMove;
         const updatedScene = updateSceneFromMessage(
             prevChatState?.scene || null,
             content,
@@ -381,8 +878,20 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             {
                 locationPlaceHeads: effectiveConfig.tune_scene_location_place_heads,
                 locationStopwords: effectiveConfig.tune_scene_location_stopwords,
+                lexicon,
+                travelHint: priorUserMove && priorUserMove.forTurn === turnIndex ? priorUserMove.travel : null,
+                timeHint: priorUserMove && priorUserMove.forTurn === turnIndex ? priorUserMove.time : null,
+                cast: this.castNames(),
+                speaker: this.activeCharacterCard()?.name ?? null,
+                turn: turnIndex,
             },
         );
+        // A move this reply made with nothing (here or in the user's turn) explaining how they got there.
+        const prevLocations = prevChatState?.scene?.locationHistory || [];
+        const lastLocation = (updatedScene.locationHistory || []).slice(-1)[0];
+        const teleport = lastLocation && lastLocation !== prevLocations[prevLocations.length - 1] && lastLocation.from && lastLocation.via === null
+            ? lastLocation
+            : null;
         const prevBeatCount = Array.isArray(prevChatState?.scene?.unresolvedBeats) ? (prevChatState as any).scene.unresolvedBeats.length : 0;
         if (effectiveConfig.scene_unresolved_beats_enabled) {
             const maxBeats = typeof effectiveConfig.unresolved_beats_max_history === 'number'
@@ -412,36 +921,64 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
         (this as any)._chatState = updatedChatState;
 
         // Proximity realism gate
-        const proximityResult = evaluateProximityTransition(content, this.myInternalState.proximity);
+        const proximityResult = evaluateProximityTransition(content, this.myInternalState.proximity, lexicon);
         let proximityWarning: string | null = null;
         if (proximityResult.skipped) {
             const missing = Array.isArray((proximityResult as any).missing) ? (proximityResult as any).missing : [];
             const missingLabel = missing.length > 0 ? ` Missing: ${missing.join(" → ")}.` : '';
             proximityWarning = `System note: proximity jumped ${proximityResult.from} → ${proximityResult.next}.${missingLabel} Consider adding an intermediate beat.`;
         }
-        if (proximityResult.changed) {
+        // Content-rating ceiling: proximity and phase never climb past what the rating allows.
+        const ceiling = ratingCeiling(effectiveConfig.content_rating);
+        const proximityNext = clampProximity(proximityResult.next, ceiling);
+        if (proximityResult.changed && proximityNext !== this.myInternalState.proximity) {
             const now = Date.now();
-            this.myInternalState.proximity = proximityResult.next;
-            this.myInternalState.proximityHistory = (this.myInternalState.proximityHistory || []).concat([{state: proximityResult.next, at: now}]).slice(-50);
+            this.myInternalState.proximity = proximityNext;
+            this.myInternalState.proximityHistory = (this.myInternalState.proximityHistory || []).concat([{state: proximityNext, at: now, direction: proximityResult.direction === 'retreat' ? 'retreat' : 'forward'}]).slice(-50);
         }
 
         // ----------
         // Escalation / phase logic
         // ----------
         // detect escalation signals in this bot message
-        const signals = detectEscalationSignals(content, snapshot);
+        const signals = detectEscalationSignals(content, snapshot, lexicon);
         this.myInternalState.signalHistory = (this.myInternalState.signalHistory || []).concat(signals).slice(-20);
+        const userMove = this.myInternalState.lastUserMove;
+        const userMoveThisTurn = userMove && userMove.forTurn === turnIndex ? userMove : null;
+        if (signals.length > 0 || (userMoveThisTurn && userMoveThisTurn.signals.length > 0)) {
+            this.myInternalState.lastSignalTurn = turnIndex;
+        }
+
+        // Relationship axes: signals, scars, repairs, subtext and consent issues move trust/attraction/tension/comfort.
+        const consentIssues = detectConsentIssues(content, lexicon);
+        const subtext = scoreSubtext(content);
+        const axesUpdate = updateRelationshipAxes(this.myInternalState.axes, {
+            content,
+            signals,
+            scarEvents,
+            consentIssues,
+            subtext: subtext.notes.length > 0,
+        });
+        this.myInternalState.axes = axesUpdate.axes;
+
+        // Story clock: narrated time skips ("the next morning") pay toward the phase dwell budget.
+        const storyMinutes = (this.myInternalState.storyMinutes || 0) + storyTimeAdvance(content, lexicon);
+        this.myInternalState.storyMinutes = storyMinutes;
 
         // Aggregate recent signals across last N turns (weighted)
         const recentSignals = (this.myInternalState.signalHistory || []).slice(-5);
-        const phaseOrder = ["Neutral", "Familiar", "Charged", "Intimate"] as const;
-        const phaseBefore = (this.myInternalState.phase as any) || "Neutral";
-        const currentIndex = Math.max(0, phaseOrder.indexOf(phaseBefore as any));
+        const ladder = this.activeLadder(effectiveConfig);
+        const phaseOrder = ladder.phases;
+        // A phase from another ladder (the config changed mid-chat) restarts on this ladder's floor.
+        const storedPhase = this.myInternalState.phase;
+        const phaseBefore: RelationshipPhase = storedPhase && phaseOrder.includes(storedPhase) ? storedPhase : phaseOrder[0];
+        const currentIndex = phaseOrder.indexOf(phaseBefore);
 
         const suggestedWeights: {[k: string]: number} = {};
         for (const s of recentSignals) {
             const w = typeof (s as any).weight === 'number' && Number.isFinite((s as any).weight) ? (s as any).weight : 1;
-            suggestedWeights[s.suggestedPhase] = (suggestedWeights[s.suggestedPhase] || 0) + w;
+            const rung = ladderPhaseFor(ladder, s);
+            suggestedWeights[rung] = (suggestedWeights[rung] || 0) + w;
         }
         const recentSignalWeightTotal = recentSignals.reduce((acc: number, s: any) => {
             const w = typeof s?.weight === 'number' && Number.isFinite(s.weight) ? s.weight : 1;
@@ -453,7 +990,7 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
         const phaseThresholdByStrictness = typeof effectiveConfig.tune_phase_weight_threshold === 'number'
             ? effectiveConfig.tune_phase_weight_threshold
             : phaseThresholdByStrictnessDefault;
-        let targetPhase: typeof phaseOrder[number] | null = null;
+        let targetPhase: RelationshipPhase | null = null;
         for (let i = phaseOrder.length - 1; i >= 0; i--) {
             const p = phaseOrder[i];
             if ((suggestedWeights[p] || 0) >= phaseThresholdByStrictness) {
@@ -461,10 +998,53 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                 break;
             }
         }
+        const ceilingIdx = ceiling ? ceilingPhaseIndex(ceiling, ladder) : phaseOrder.length - 1;
+        if (targetPhase && phaseOrder.indexOf(targetPhase) > ceilingIdx) targetPhase = phaseOrder[ceilingIdx];
+
+        // Regression: serious scars, explicit distancing or a cold stretch lower the phase.
+        // A reply that keeps going at the old level after a regression (without repair) is flagged.
+        let phaseRegressionNote: string | null = null;
+        const carryOn = detectPostRegressionCarryOn({
+            regression: this.myInternalState.phaseRegression,
+            content,
+            signals,
+            proximity: this.myInternalState.proximity,
+            ladder,
+        });
+        if (carryOn.repaired) {
+            this.myInternalState.phaseRegression = null;
+        } else if (effectiveConfig.note_phase && carryOn.note) {
+            addCandidate({id: 'phase_regression_carryover', text: carryOn.note, score: 3, debug: carryOn.reasons});
+        }
+        const lastSignalTurn = typeof this.myInternalState.lastSignalTurn === 'number' ? this.myInternalState.lastSignalTurn : 0;
+        const lastRegressionTurn = typeof this.myInternalState.lastRegressionTurn === 'number' ? this.myInternalState.lastRegressionTurn : -9999;
+        const regression = evaluatePhaseRegression({
+            phase: phaseBefore,
+            content,
+            scarEvents: scarEvents.concat(userMoveThisTurn ? userMoveThisTurn.scars : []),
+            recentEmotions: priorEmotions.concat(snapshot),
+            turnsSinceSignal: turnIndex - lastSignalTurn,
+            allowColdStretch: turnIndex - lastRegressionTurn >= 6,
+            ladder,
+        });
+        if (regression.regressed) {
+            const why = regression.reasons.map((r) => r.label.replace(/^scar_/, '').replace(/^explicit_/, '').replace(/_/g, ' '));
+            this.myInternalState.phase = regression.next;
+            this.myInternalState.phaseHistory = (this.myInternalState.phaseHistory || [])
+                .concat([{phase: regression.next, at: Date.now(), direction: 'down', reason: why.join(', '), turn: turnIndex, storyMinutes}])
+                .slice(-50);
+            this.myInternalState.phaseRegression = {from: phaseBefore, to: regression.next, turn: turnIndex, reasons: why};
+            this.myInternalState.lastRegressionTurn = turnIndex;
+            // Momentum built before the regression no longer counts toward re-advancing.
+            this.myInternalState.signalHistory = [];
+            phaseRegressionNote = `phase regressed: ${phaseBefore} → ${regression.next} (${why.join(', ')}). Let the new distance show before rebuilding intimacy.`;
+        }
 
         let escalationWarning: string | null = null;
         let phaseAdvanceNote: string | null = null;
-        if (targetPhase) {
+        let rushedNote: string | null = null;
+        // A safety stop holds the phase until the user resumes; regression still applies.
+        if (targetPhase && !regression.regressed && !this.myInternalState.safetyStop) {
             const targetIdx = phaseOrder.indexOf(targetPhase);
             if (targetIdx > currentIndex) {
                 // Always advance at most one phase per message to avoid jerky jumps, but warn on big gaps.
@@ -472,22 +1052,50 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                 const nextPhase = phaseOrder[nextIdx];
                 if (nextPhase !== phaseBefore) {
                     this.myInternalState.phase = nextPhase;
-                    this.myInternalState.phaseHistory = (this.myInternalState.phaseHistory || []).concat([{phase: nextPhase, at: Date.now()}]).slice(-50);
+                    this.myInternalState.phaseHistory = (this.myInternalState.phaseHistory || [])
+                        .concat([{phase: nextPhase, at: Date.now(), direction: 'up', turn: turnIndex, storyMinutes}])
+                        .slice(-50);
+                    // Minimum dwell: reaching a rung before the ladder's turn/story-time budget is "rushed".
+                    const dwellScale = ({1: 0.5, 2: 1, 3: 1.5} as Record<number, number>)[strictnessLevel] ?? 1;
+                    const pacing = evaluatePhasePacing({
+                        phase: nextPhase,
+                        phaseHistory: this.myInternalState.phaseHistory as PhaseHistoryEntry[],
+                        turn: turnIndex,
+                        storyMinutes,
+                        ladder,
+                        scale: dwellScale,
+                    });
+                    this.myInternalState.pacing = pacing;
+                    rushedNote = describeRushedPhase(pacing, ladder);
+                    const reg = this.myInternalState.phaseRegression;
+                    if (reg && phaseOrder.indexOf(nextPhase) >= phaseOrder.indexOf(reg.from)) {
+                        this.myInternalState.phaseRegression = null;
+                    }
                     if (strictnessLevel >= 3) {
                         phaseAdvanceNote = `phase advanced: ${phaseBefore} → ${nextPhase}`;
                     }
                 }
                 if (targetIdx > currentIndex + 1) {
                     const missing = phaseOrder.slice(currentIndex + 1, targetIdx);
-                    const missingLabel = missing.length > 0 ? ` (missing: ${missing.join(" → ")})` : '';
-                    escalationWarning = `relationship signals suggest ${targetPhase} but phase is ${phaseBefore}${missingLabel}. Consider intermediate beats.`;
+                    escalationWarning = formatSkipWarning(ladder, {phase: phaseBefore, target: targetPhase, missing});
                 }
             }
         }
+        // A phase above the ceiling (the rating was lowered mid-chat, or a regression landed there) is pulled down to it.
+        if (phaseOrder.indexOf(this.myInternalState.phase || phaseBefore) > ceilingIdx) {
+            this.myInternalState.phase = phaseOrder[ceilingIdx];
+            this.myInternalState.phaseHistory = (this.myInternalState.phaseHistory || [])
+                .concat([{phase: phaseOrder[ceilingIdx], at: Date.now(), direction: 'down', reason: `content rating ${ceiling!.rating}`, turn: turnIndex, storyMinutes}])
+                .slice(-50);
+        }
 
         // Emotional delta evaluation: detect whiplash and optionally attach a user-visible system note.
         let uiNote: string | null = null;
-        const delta = evaluateEmotionalDelta(snapshot, priorEmotions, content);
+        const userSnapshot = userMoveThisTurn ? userMoveThisTurn.snapshot : null;
+        const card = this.activeCharacterCard();
+        const baseline = this.myInternalState.emotionBaseline
+            || seedEmotionBaseline(card ? [card.personality, card.description].filter((s) => typeof s === 'string').join('\n') : '', lexicon);
+        const delta = evaluateEmotionalDelta(snapshot, priorEmotions, content, {userSnapshot, lexicon, baseline});
         const deltaScore = typeof (delta as any).score === 'number' ? (delta as any).score : 0;
         const deltaThresholdByStrictnessDefault = ({1: 5, 2: 3, 3: 2} as Record<number, number>)[strictnessLevel] ?? 3;
         const deltaThresholdByStrictness = typeof effectiveConfig.tune_delta_score_threshold === 'number'
@@ -514,6 +1122,7 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
 
         // append to lastEmotions keeping small buffer after detection
         this.myInternalState.lastEmotions = priorEmotions.concat(snapshot).slice(-5);
+        this.myInternalState.emotionBaseline = updateEmotionBaseline(baseline, snapshot);
 
         // Unresolved beat reminder (best-effort): can show in UI and/or be queued for prompt injection.
         if (effectiveConfig.note_unresolved_beats && effectiveConfig.scene_unresolved_beats_enabled && strictnessLevel >= 2) {
@@ -531,6 +1140,8 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                 snapshot,
                 priorEmotions,
                 memoryScars: this.myInternalState.memoryScars || [],
+                axes: this.myInternalState.axes,
+                lexicon,
             });
             const thresholdDefault = ({1: 99, 2: 3, 3: 2} as Record<number, number>)[strictnessLevel] ?? 3;
             const threshold = typeof effectiveConfig.tune_unresolved_beat_score_threshold === 'number'
@@ -557,31 +1168,102 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
         if (effectiveConfig.note_phase && escalationWarning) {
             addCandidate({id: 'phase_skip', text: escalationWarning, score: 3});
         }
+        if (effectiveConfig.note_phase) {
+            const mismatch = detectAxisMismatch({
+                axes: this.myInternalState.axes || createRelationshipAxes(),
+                phase: this.myInternalState.phase,
+                ladder,
+                proximity: this.myInternalState.proximity,
+                signals,
+                advanced: (this.myInternalState.phase !== phaseBefore && !regression.regressed)
+                    || (proximityResult.changed && proximityResult.direction !== 'retreat'),
+            });
+            if (mismatch.note) {
+                addCandidate({id: 'axis_mismatch', text: mismatch.note, score: mismatch.score, debug: mismatch.reasons.concat(axesUpdate.changes)});
+            }
+        }
+        if (effectiveConfig.note_pacing && rushedNote) {
+            addCandidate({id: 'phase_rushed', text: rushedNote, score: 3, debug: this.myInternalState.pacing});
+        }
         if (effectiveConfig.note_phase && phaseAdvanceNote && canEmitNonCriticalNote) {
             addCandidate({id: 'phase_advance', text: phaseAdvanceNote, score: 1});
         }
+        if (effectiveConfig.note_phase && phaseRegressionNote && strictnessLevel >= 2) {
+            addCandidate({id: 'phase_regression', text: phaseRegressionNote, score: 2, debug: regression.reasons});
+        }
 
         if (effectiveConfig.note_proximity && proximityWarning) {
             addCandidate({
                 id: 'proximity_skip',
                 text: proximityWarning.replace(/^System note:\s*/i, ''),
                 score: 3,
-                debug: {evidence: proximityResult.evidence, missing: proximityResult.missing, from: proximityResult.from, next: proximityResult.next},
+                debug: {evidence: proximityResult.evidence, missing: proximityResult.missing, from: proximityResult.from, next: proximityResult.next, direction: proximityResult.direction},
+            });
+        }
+
+        if (effectiveConfig.note_teleport && teleport) {
+            addCandidate({
+                id: 'scene_teleport',
+                text: `scene jumped ${teleport.from} → ${teleport.location} with no travel or transition. Show how they got there, or mark the cut.`,
+                score: 2,
+                debug: {from: teleport.from, to: teleport.location},
+            });
+        }
+
+        const offstage = updatedScene.cast?.actedWhileAbsent || [];
+        if (effectiveConfig.note_presence && offstage.length > 0) {
+            addCandidate({
+                id: 'absent_character',
+                text: `${offstage.join(', ')} left the scene but ${offstage.length > 1 ? 'act' : 'acts'} as if still present. Bring them back in on the page, or keep them offstage.`,
+                score: 2,
+                debug: {absent: offstage, present: updatedScene.cast?.present || []},
+            });
+        }
+
+        const breaks = updatedScene.continuity || [];
+        if (effectiveConfig.note_continuity && breaks.length > 0) {
+            addCandidate({
+                id: 'continuity',
+                text: `continuity: ${breaks.map(describeContinuityBreak).join('; ')}. Keep clothing, objects in hand, injuries and wet/tired states consistent, or narrate the change.`,
+                score: 2,
+                debug: {breaks},
+            });
+        }
+
+        const propConflicts = updatedScene.objectConflicts || [];
+        if (effectiveConfig.note_objects && propConflicts.length > 0) {
+            addCandidate({
+                id: 'object_continuity',
+                text: `object continuity: ${propConflicts.map(describeObjectConflict).join('; ')}. Show the change on the page, or keep the prop as it was.`,
+                score: 2,
+                debug: {conflicts: propConflicts},
+            });
+        }
+
+        const envConflicts = updatedScene.environmentConflicts || [];
+        if (effectiveConfig.note_environment && envConflicts.length > 0) {
+            addCandidate({
+                id: 'environment_continuity',
+                text: `environment: ${envConflicts.map((c) => `${c.attribute} was ${c.was}, now ${c.now} ("${c.evidence}")`).join('; ')} with no change narrated. Narrate the change, or keep the surroundings as they were.`,
+                score: 2,
+                debug: {conflicts: envConflicts, environment: updatedScene.environment || {}},
+            });
+        }
+
+        const clockBack = updatedScene.timeline?.regression;
+        if (effectiveConfig.note_timeline && clockBack) {
+            const label = (part: string) => part.replace(/_/g, ' ');
+            addCandidate({
+                id: 'timeline_regression',
+                text: `time ran backwards: ${label(clockBack.from)} → ${label(clockBack.to)} on day ${clockBack.day} with no sleep or time skip. Mark the skip ("the next afternoon") or keep the clock moving forward.`,
+                score: 2,
+                debug: {...clockBack, timeOfDay: updatedScene.timeOfDay ?? null},
             });
         }
 
-        const consentIssues = detectConsentIssues(content);
         if (effectiveConfig.note_consent && consentIssues.length > 0) {
             this.myInternalState.consentAlerts = (this.myInternalState.consentAlerts || []).concat([Date.now()]).slice(-50);
-            const weights: Record<string, number> = {
-                'assigns emotions to the user': 2,
-                'forces decisions/consent onto the user': 6,
-                'coercive physical action': 7,
-                'describes internal monologue for the user': 2,
-                'describes involuntary bodily response for the user': 2,
-            };
-            const consentScore = consentIssues.reduce((acc, issue) => acc + (weights[issue] ?? 2), 0);
-            const isCritical = consentIssues.some((i) => i === 'coercive physical action' || i === 'forces decisions/consent onto the user');
+            const {score: consentScore, critical: isCritical} = scoreConsentIssues(consentIssues, lexicon);
             addCandidate({
                 id: 'consent',
                 text: `Consent/agency alert: ${consentIssues.join('; ')}. Consider offering choices / asking before actions.`,
@@ -591,9 +1273,42 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             });
         }
 
+        // User-declared limits, judged at the phase/proximity the reply started from.
+        const boundaryViolations = detectBoundaryViolations(content, this.activeBoundaries(effectiveConfig), {phase: phaseBefore, proximity: proximityResult.from, ladder}, lexicon);
+        for (const level of ['hard', 'soft'] as const) {
+            const crossed = boundaryViolations.filter((v) => v.level === level);
+            if (crossed.length === 0) continue;
+            addCandidate({
+                id: `boundary_${level}`,
+                text: `Boundary crossed (${level} limit: ${crossed.map((v) => `${v.boundary}, "${v.evidence}"`).join('; ')}). Pull back and keep the scene within the user's limits.`,
+                score: level === 'hard' ? 5 : 3,
+                critical: level === 'hard',
+                debug: crossed,
+            });
+        }
+
+        // Content above the rating ceiling is always critical: escalation past the top rung, proximity past the cap,
+        // or a topic the rating rules out.
+        if (ceiling) {
+            const above = Array.from(new Set(signals
+                .filter((s) => s.type !== 'anticipation' && phaseOrder.indexOf(ladderPhaseFor(ladder, s)) > ceilingIdx)
+                .map((s) => s.type.replace(/_/g, ' '))));
+            if (proximityResult.changed && proximityNext !== proximityResult.next) above.push(`proximity ${proximityResult.next}`);
+            const topics = detectBoundaryViolations(content, ratingBoundaries(ceiling), {phase: phaseBefore, proximity: proximityResult.from, ladder}, lexicon);
+            above.push(...topics.map((v) => `${v.topic.replace(/_/g, ' ')}: "${v.evidence}"`));
+            if (above.length > 0) {
+                addCandidate({
+                    id: 'rating_ceiling',
+                    text: `Above the ${ceiling.rating} content ceiling (${above.join('; ')}). Fade to black: ${ceiling.fadeToBlack}`,
+                    score: 5,
+                    critical: true,
+                    debug: {rating: ceiling.rating, above, maxPhase: phaseOrder[ceilingIdx], maxProximity: ceiling.maxProximity},
+                });
+            }
+        }
+
         // Subtext highlights (hesitation, avoidance, guarded interest, fear of rejection)
         if (effectiveConfig.note_subtext && strictnessLevel >= 2) {
-            const subtext = scoreSubtext(content);
             const subtextThresholdByStrictness = ({1: 99, 2: 2, 3: 1} as Record<number, number>)[strictnessLevel] ?? 2;
             if (subtext.notes.length > 0 && subtext.score >= subtextThresholdByStrictness) {
                 addCandidate({
@@ -624,6 +1339,8 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                 driftNotes: (this.myInternalState.driftNotes || []) as number[],
                 recentSignalWeight: recentSignalWeightTotal,
                 proximityChanged: proximityResult.changed,
+                phase: this.myInternalState.phase,
+                ladder,
             });
             if (driftNote) {
                 this.myInternalState.driftNotes = (this.myInternalState.driftNotes || []).concat([turnIndex]).slice(-50);
@@ -645,6 +1362,7 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             }
         }
 
+        const characterLabel = this.activeCharacterLabel();
         let selectedForUi: NoteCandidate[] = [];
         let selectedForPrompt: NoteCandidate[] = [];
         if (effectiveConfig.ui_enabled) {
@@ -661,7 +1379,7 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             selectedForUi = selected;
             if (selected.length > 0) {
                 const parts = selected.map((c) => c.text.replace(/^System note:\s*/i, ''));
-                uiNote = `System note: ${parts.join(' — ')}`;
+                uiNote = `System note${characterLabel ? ` (${characterLabel})` : ''}: ${parts.join(' — ')}`;
             }
         }
 
@@ -683,7 +1401,10 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
                 .filter((c) => c.critical || canEmitNonCriticalNote)
                 .sort((a, b) => (Number(Boolean(b.critical)) * 100 + b.score) - (Number(Boolean(a.critical)) * 100 + a.score))
                 .slice(0, maxParts);
-            const parts = selectedForPrompt.map((c) => c.text.replace(/^System note:\s*/i, '').trim()).filter(Boolean);
+            const parts = selectedForPrompt
+                .map((c) => c.text.replace(/^System note:\s*/i, '').trim())
+                .filter(Boolean)
+                .map((p) => (characterLabel ? `[${characterLabel}] ${p}` : p));
             this.myInternalState.pendingPromptNotes = parts.length > 0 ? {at: Date.now(), fromTurn: turnIndex, parts} : null;
         } else {
             this.myInternalState.pendingPromptNotes = null;
@@ -739,6 +1460,7 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
             (this.myInternalState as any).lastUnresolvedBeatReminderId = (this.myInternalState as any)._pendingUnresolvedBeatId ?? null;
         }
         delete (this.myInternalState as any)._pendingUnresolvedBeatId;
+        this.storeActiveRelationship();
 
             return {
                 stageDirections: null,
@@ -785,8 +1507,16 @@ export class Stage extends StageBase<InitStateType, ChatStateType, MessageStateT
 
 }
 
+const AXIS_COLORS: Record<keyof RelationshipAxes, string> = {
+    trust: '#2e7d32',
+    attraction: '#c2185b',
+    tension: '#ef6c00',
+    comfort: '#0b6bcb',
+};
+
 // Lightweight, non-intrusive dropdown to surface recent system notes inside the iframe.
 // Polls the stage instance for recent overlay notes and renders a toggleable list.
+
 function NoticeOverlay({stageRef}: {stageRef: any}) {
     const [open, setOpen] = useState(false);
     const [explain, setExplain] = useState(false);
@@ -806,6 +1536,14 @@ function NoticeOverlay({stageRef}: {stageRef: any}) {
     const lastUiDebug = (stageRef?.myInternalState?.lastUiDebug as any) || null;
     const turnIndex = stageRef?.myInternalState?.turnIndex as number | undefined;
     const lastAfterResponseAt = stageRef?.myInternalState?.lastAfterResponseAt as number | undefined;
+    const ladder = resolveLadder(cfg.relationship_ladder, cfg.relationship_ladders).ladder;
+    const currentPhase = stageRef?.myInternalState?.phase as string | undefined;
+    const pacing = stageRef?.myInternalState?.pacing as {phase?: string; score?: number; rushed?: boolean} | null | undefined;
+    const paceLabel = pacing && pacing.rushed && pacing.phase === currentPhase && typeof pacing.score === 'number' ? ` (pace ${Math.round(pacing.score * 100)}%)` : '';
+    const ladderLabel = `${ladder.name || ladder.id}: ${currentPhase && ladder.phases.includes(currentPhase) ? currentPhase : ladder.phases[0]}${paceLabel}`;
+    const axes = stageRef?.myInternalState?.axes as RelationshipAxes | undefined;
+    const paused = Boolean(stageRef?.myInternalState?.commandOverrides?.paused);
+    const safetyStop = Boolean(stageRef?.myInternalState?.safetyStop);
     const maxNotes = typeof cfg.ui_max_notes === 'number' ? Math.max(1, Math.min(50, Math.floor(cfg.ui_max_notes))) : 10;
     const latest = useMemo(() => [...notes].slice(-maxNotes), [notes, tick, maxNotes]);
     const hasNotes = latest.length > 0;
@@ -869,7 +1607,23 @@ function NoticeOverlay({stageRef}: {stageRef: any}) {
                 >
                     {cfg.ui_show_status !== false && (
                         <div style={{fontSize: '11px', fontWeight: 600, color: '#555', marginBottom: '8px'}}>
-                            {`Status • ${typeof turnIndex === 'number' ? `turn ${turnIndex}` : 'no turns yet'}${typeof lastAfterResponseAt === 'number' ? ` • last response ${new Date(lastAfterResponseAt).toLocaleTimeString()}` : ''}`}
+                            {`Status • ${typeof turnIndex === 'number' ? `turn ${turnIndex}` : 'no turns yet'}${typeof lastAfterResponseAt === 'number' ? ` • last response ${new Date(lastAfterResponseAt).toLocaleTimeString()}` : ''} • ${ladderLabel}${paused ? ' • paused' : ''}${safetyStop ? ' • safety stop' : ''}`}
+                        </div>
+                    )}
+                    {cfg.ui_show_status !== false && axes && (
+                        <div style={{marginBottom: '8px'}}>
+                            {RELATIONSHIP_AXES.map((axis) => {
+                                const value = Math.max(0, Math.min(100, Math.round(Number(axes[axis]) || 0)));
+                                return (
+                                    <div key={axis} style={{display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#555'}}>
+                                        <span style={{width: '62px'}}>{axis}</span>
+                                        <div style={{flex: 1, height: '6px', background: '#eee', borderRadius: '3px', overflow: 'hidden'}}>
+                                            <div style={{width: `${value}%`, height: '100%', background: AXIS_COLORS[axis]}} />
+                                        </div>
+                                        <span style={{width: '24px', textAlign: 'right'}}>{value}</span>
+                                    </div>
+                                );
+                            })}
                         </div>
                     )}
                     {debugEnabled && (
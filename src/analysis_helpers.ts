@@ -1,24 +1,98 @@
+import {type CompiledLexicon, type Daypart, DAYPARTS, ENVIRONMENT_VALUES, type EnvironmentAttribute, type EnvironmentValue, type LexiconModality, type LexiconNegation, type ObjectCue, type PhysicalCue, DEFAULT_LEXICON, compileLooseTermsRegex, compileWordRegex, escapeRegExp} from "./lexicon";
+import {type Boundary, type BoundaryLevel, describeBoundary, isBoundaryActive} from "./boundaries";
+import {BUILTIN_LADDERS, CORE_PHASES, DEFAULT_LADDER_ID, ladderPhaseFor, type PhaseDwell, type RelationshipLadder} from "./ladders";
+
 export type EmotionIntensity = "low" | "medium" | "high";
 
+// Continuous emotion coordinates, each in -1..1 (pleasant/unpleasant, calm/activated, submissive/in control).
+export type EmotionVad = {valence: number; arousal: number; dominance: number};
+
 export type EmotionSnapshot = {
     tone: string;
     intensity: EmotionIntensity;
+    // Derived from the weighted tone hits; absent on snapshots persisted before the dimensional model.
+    valence?: number;
+    arousal?: number;
+    dominance?: number;
+    // Runner-up tone for mixed messages ("bittersweet", "nervous-affectionate") and the primary tone's
+    // share of the two (1 when the message is not mixed).
+    secondaryTone?: string | null;
+    mix?: number;
 };
 
-export type RelationshipPhase = "Neutral" | "Familiar" | "Charged" | "Intimate";
+// A rung of the active relationship ladder (see `src/ladders.ts`); the core ladder is Neutral → Familiar → Charged → Intimate.
+export type RelationshipPhase = string;
 export type Proximity = "Distant" | "Nearby" | "Touching" | "Intimate";
 
-export type MemoryScar = {event: string; text: string; at: number};
-export type PhaseHistoryEntry = {phase: RelationshipPhase; at: number};
-export type ProximityHistoryEntry = {state: Proximity; at: number};
+export type MessageSource = "user" | "bot";
+
+export type MemoryScar = {event: string; text: string; at: number; source?: MessageSource};
+// `turn`/`storyMinutes` record when (in turns and in-story time) the phase was entered; older entries lack them.
+// `seeded` marks the opening phase read from the character card; pacing counts from it as it does from a drop.
+export type PhaseHistoryEntry = {phase: RelationshipPhase; at: number; direction?: "up" | "down"; reason?: string; turn?: number; storyMinutes?: number; seeded?: boolean};
+// Set when the phase drops; cleared by a repair beat or once the story re-earns the old phase.
+export type PhaseRegressionState = {from: RelationshipPhase; to: RelationshipPhase; turn: number; reasons: string[]};
+export type ProximityHistoryEntry = {state: Proximity; at: number; direction?: "forward" | "retreat"};
+// A recalled moment ("she remembers the night he kissed her"), linked to the scar or milestone it calls back to.
+export type RecollectionCallback = {text: string; at: number; scar?: string; scarAt?: number; milestones?: string[]};
+
+// Relationship state tracked per bot character (keyed by the message `anonymizedId`).
+export type RelationshipState = {
+    phase: RelationshipPhase;
+    proximity: Proximity;
+    phaseHistory: PhaseHistoryEntry[];
+    proximityHistory: ProximityHistoryEntry[];
+    signalHistory: EscalationSignal[];
+    lastEmotions: EmotionSnapshot[];
+    memoryScars: MemoryScar[];
+    lastScarRecallIdx?: number;
+    phaseRegression?: PhaseRegressionState | null;
+    lastSignalTurn?: number;
+    lastRegressionTurn?: number;
+    pacing?: PhasePacing | null;
+    callbacks?: RecollectionCallback[];
+    emotionBaseline?: EmotionBaseline;
+    axes?: RelationshipAxes;
+};
+
+// 0..100 each; one phase value cannot say "very attracted but no trust since the betrayal".
+export type RelationshipAxes = {trust: number; attraction: number; tension: number; comfort: number};
+export const RELATIONSHIP_AXES = ["trust", "attraction", "tension", "comfort"] as const;
+
+export function createRelationshipState(floor: RelationshipPhase = CORE_PHASES[0]): RelationshipState {
+    return {
+        phase: floor,
+        proximity: "Distant",
+        phaseHistory: [],
+        proximityHistory: [],
+        signalHistory: [],
+        lastEmotions: [],
+        memoryScars: [],
+    };
+}
 
 export type EmotionTuning = {
     extraTerms?: Record<string, string[]> | null;
+    lexicon?: CompiledLexicon | null;
 };
 
+// Time passing narrated in an earlier message of the same exchange: story minutes skipped and whether someone slept.
+export type TimeHint = {skip?: number; slept?: boolean};
+
 export type SceneTuning = {
     locationPlaceHeads?: string[] | null;
     locationStopwords?: string[] | null;
+    lexicon?: CompiledLexicon | null;
+    // Travel cue from the user's own turn ("we head up to the roof"); explains a move the reply only lands on.
+    travelHint?: string | null;
+    // Time skip or sleep from the user's own turn ("The next morning, I wake up"); the reply's clock and ledgers follow it.
+    timeHint?: TimeHint | null;
+    // Character names from the chat's roster; enables presence tracking (`scene.cast`).
+    cast?: string[] | null;
+    // Character whose reply this is; narration without a named subject ("she shrugs off her coat") is theirs.
+    speaker?: string | null;
+    // Chat turn of this message; object-ledger mentions and conflicts record it.
+    turn?: number;
 };
 
 function countMatches(text: string, re: RegExp): number {
@@ -28,26 +102,11 @@ function countMatches(text: string, re: RegExp): number {
 
 type WeightedHit = {label: string; weight: number};
 
-function escapeRegExp(s: string): string {
-    return (s || "").replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
-function compileLooseTermsRegex(terms: string[] | null | undefined): RegExp | null {
-    if (!Array.isArray(terms) || terms.length === 0) return null;
-    const cleaned = Array.from(new Set(terms.map((t) => String(t || "").trim()).filter(Boolean))).slice(0, 80);
-    if (cleaned.length === 0) return null;
-    const parts = cleaned.map((t) => {
-        const esc = escapeRegExp(t).replace(/\s+/g, "\\s+");
-        return /\s/.test(t) ? esc : `\\b${esc}\\b`;
-    });
-    return new RegExp(`(?:${parts.join("|")})`, "i");
-}
-
 function stripQuotedDialogue(text: string): string {
     if (!text) return "";
-    // Remove double-quoted dialogue spans to reduce false positives in scene extraction.
+    // Remove double-quoted dialogue spans (plus «guillemets» and „German“ quotes) to reduce false positives in scene extraction.
     // Keep this lightweight; do not attempt full NLP parsing.
-    return text.replace(/"[^"]*"/g, " ");
+    return text.replace(/"[^"]*"/g, " ").replace(/«[^»]*»/g, " ").replace(/„[^“”]*[“”]/g, " ");
 }
 
 function pushWeighted(hits: WeightedHit[], label: string, weight: number) {
@@ -58,16 +117,23 @@ function sumWeights(hits: WeightedHit[]): number {
     return hits.reduce((acc, h) => acc + (Number.isFinite(h.weight) ? h.weight : 0), 0);
 }
 
-function isNegatedAt(text: string, matchIndex: number, windowChars: number = 24): boolean {
+function isNegatedAt(text: string, matchIndex: number, windowChars: number = 24, cues: RegExp[] = DEFAULT_LEXICON.negation): boolean {
     if (!text || matchIndex <= 0) return false;
     const start = Math.max(0, matchIndex - windowChars);
     const prefix = text.slice(start, matchIndex);
     // If there's a hard boundary punctuation close-by, treat as not negating this match.
     if (/[.!?;,]/.test(prefix)) return false;
-    return /\b(?:not|never|no|hardly|scarcely|without|isn'?t|aren'?t|don'?t|didn'?t|won'?t|can'?t|couldn'?t)\b/i.test(prefix);
+    return cues.some((re) => re.test(prefix));
 }
 
-function scoreRegexWithNegation(text: string, re: RegExp, weight: number, label: string): {score: number; reasons: WeightedHit[]} {
+function scoreRegexWithNegation(
+    text: string,
+    re: RegExp,
+    weight: number,
+    label: string,
+    negation: LexiconNegation = "skip",
+    cues: RegExp[] = DEFAULT_LEXICON.negation,
+): {score: number; reasons: WeightedHit[]} {
     if (!text) return {score: 0, reasons: []};
     const flags = re.flags.includes("g") ? re.flags : `${re.flags}g`;
     const global = new RegExp(re.source, flags);
@@ -77,7 +143,7 @@ function scoreRegexWithNegation(text: string, re: RegExp, weight: number, label:
     const maxCount = 6;
     while ((m = global.exec(text)) != null) {
         if (m.index == null) continue;
-        if (isNegatedAt(text, m.index)) continue;
+        if (negation === "skip" && isNegatedAt(text, m.index, 24, cues)) continue;
         score += weight;
         count += 1;
         if (count >= maxCount) break;
@@ -85,27 +151,107 @@ function scoreRegexWithNegation(text: string, re: RegExp, weight: number, label:
     return {score, reasons: score !== 0 ? [{label, weight: score}] : []};
 }
 
-function hasAffirmedMatch(text: string, re: RegExp): boolean {
+function hasAffirmedMatch(text: string, re: RegExp, cues: RegExp[] = DEFAULT_LEXICON.negation): boolean {
     if (!text) return false;
     const flags = re.flags.includes("g") ? re.flags : `${re.flags}g`;
     const global = new RegExp(re.source, flags);
     let m: RegExpExecArray | null;
     while ((m = global.exec(text)) != null) {
         if (m.index == null) continue;
-        if (isNegatedAt(text, m.index)) continue;
+        if (isNegatedAt(text, m.index, 24, cues)) continue;
         return true;
     }
     return false;
 }
 
-function extractIntensity(text: string): EmotionIntensity {
+export type Modality = LexiconModality | "question";
+
+/**
+ * Modality of the match at `matchIndex`: "question" when its sentence ends with "?", otherwise the first
+ * modality cue (conditional, wish, dream, future) earlier in the same clause. Null means it is stated as happening.
+ */
+export function modalityAt(text: string, matchIndex: number, lexicon: CompiledLexicon = DEFAULT_LEXICON): Modality | null {
+    if (!text || matchIndex < 0) return null;
+    // A colon or quote ends the scan so "She kisses you and asks: are you okay?" stays stated.
+    const end = text.slice(matchIndex).search(/[.!?:"“”\n]/);
+    if (end >= 0 && text[matchIndex + end] === "?") return "question";
+    const before = text.slice(0, matchIndex);
+    const start = Math.max(before.search(/[^.!?;,\n]*$/), matchIndex - 80);
+    const prefix = before.slice(start);
+    for (const m of lexicon.modality) {
+        if (m.re.test(prefix)) return m.kind;
+    }
+    return null;
+}
+
+/**
+ * Like `hasAffirmedMatch`, but splits non-negated matches into stated ones and ones inside a
+ * conditional/wish/dream/question/future frame (the first such modality is reported).
+ */
+function findStatedMatch(
+    text: string,
+    re: RegExp,
+    lexicon: CompiledLexicon = DEFAULT_LEXICON,
+    negation: LexiconNegation = "skip",
+): {stated: boolean; modality: Modality | null; at: number} {
+    if (!text) return {stated: false, modality: null, at: -1};
+    const flags = re.flags.includes("g") ? re.flags : `${re.flags}g`;
+    const global = new RegExp(re.source, flags);
+    let modality: Modality | null = null;
+    let m: RegExpExecArray | null;
+    while ((m = global.exec(text)) != null) {
+        if (m.index == null) continue;
+        if (negation === "skip" && isNegatedAt(text, m.index, 24, lexicon.negation)) continue;
+        const mode = modalityAt(text, m.index, lexicon);
+        if (!mode) return {stated: true, modality: null, at: m.index};
+        modality = modality || mode;
+    }
+    return {stated: false, modality, at: -1};
+}
+
+export type Recollection = {text: string; start: number; end: number};
+
+/**
+ * Find memory/flashback framing (from the recollection cue to the end of its sentence) and return a copy
+ * of the text with those spans blanked out. Offsets are preserved so negation/modality checks still line up.
+ */
+export function maskRecollections(text: string, lexicon: CompiledLexicon = DEFAULT_LEXICON): {masked: string; spans: Recollection[]} {
+    if (!text || lexicon.recollection.length === 0) return {masked: text || "", spans: []};
+    const ranges: Array<[number, number]> = [];
+    for (const cue of lexicon.recollection) {
+        const global = new RegExp(cue.source, cue.flags.includes("g") ? cue.flags : `${cue.flags}g`);
+        for (const m of text.matchAll(global)) {
+            if (m.index == null || m[0].length === 0) continue;
+            const rest = text.slice(m.index).search(/[.!?\n]/);
+            ranges.push([m.index, rest < 0 ? text.length : m.index + rest + 1]);
+        }
+    }
+    if (ranges.length === 0) return {masked: text, spans: []};
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: Array<[number, number]> = [];
+    for (const r of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+        else merged.push([r[0], r[1]]);
+    }
+    let masked = "";
+    let cursor = 0;
+    for (const [start, end] of merged) {
+        masked += text.slice(cursor, start) + " ".repeat(end - start);
+        cursor = end;
+    }
+    masked += text.slice(cursor);
+    return {masked, spans: merged.map(([start, end]) => ({text: text.slice(start, end).trim(), start, end}))};
+}
+
+function extractIntensity(text: string, lexicon: CompiledLexicon = DEFAULT_LEXICON): EmotionIntensity {
     const t = text || "";
     let score = 0;
 
     const exclamations = countMatches(t, /!/g);
     const questions = countMatches(t, /\?/g);
     const allCapsWords = countMatches(t, /\b[A-Z]{3,}\b/g);
-    const elongated = countMatches(t, /([a-z])\1{2,}/gi); // "soooo", "noooo"
+    const elongated = countMatches(t, /(\p{L})\1{2,}/giu); // "soooo", "noooo"
 
     if (exclamations >= 1) score += 1;
     if (exclamations >= 3) score += 1;
@@ -113,10 +259,10 @@ function extractIntensity(text: string): EmotionIntensity {
     if (allCapsWords >= 2) score += 1;
     if (elongated >= 1) score += 1;
 
-    if (/\b(very|really|so|extremely|absolutely|completely|totally|utterly|incredibly)\b/i.test(t)) score += 1;
+    if (lexicon.amplifiers.some((re) => re.test(t))) score += 1;
 
     // "high stakes" / highly emotional cues
-    if (/\b(furious|devastated|heartbroken|terrified|desperate|sobbing|screaming|shaking|trembling|panicking)\b/i.test(t)) {
+    if (lexicon.highStakes.some((re) => re.test(t))) {
         score += 2;
     }
 
@@ -130,151 +276,234 @@ export function scoreEmotionSnapshot(text: string, tuning?: EmotionTuning): {
     toneScores: Array<{tone: string; score: number; reasons: WeightedHit[]}>;
 } {
     if (!text || text.trim().length === 0) {
-        return {snapshot: {tone: "neutral", intensity: "low"}, toneScores: []};
+        return {snapshot: {tone: "neutral", intensity: "low", valence: 0, arousal: 0, dominance: 0, secondaryTone: null, mix: 1}, toneScores: []};
     }
     const t = text;
-    const intensity = extractIntensity(t);
+    const lexicon = tuning?.lexicon || DEFAULT_LEXICON;
+    const intensity = extractIntensity(t, lexicon);
 
     const extraTermsByTone = tuning?.extraTerms || null;
     const extraCache = new Map<string, RegExp | null>();
     const getExtraRegex = (tone: string): RegExp | null => {
         if (extraCache.has(tone)) return extraCache.get(tone) ?? null;
-        const re = compileLooseTermsRegex(extraTermsByTone && (extraTermsByTone as any)[tone]);
+        const loose = compileLooseTermsRegex(extraTermsByTone && (extraTermsByTone as any)[tone]);
+        const re = loose ? compileWordRegex(loose.source, "i", lexicon.unicode) : null;
         extraCache.set(tone, re);
         return re;
     };
 
-    const toneScore = (tone: string, parts: Array<{label: string; re: RegExp; weight: number}>) => {
+    const toneScores = lexicon.tones.map(({tone, patterns}) => {
         const reasons: WeightedHit[] = [];
         let score = 0;
-        for (const p of parts) {
-            const hit = scoreRegexWithNegation(t, p.re, p.weight, p.label);
+        for (const p of patterns) {
+            const hit = scoreRegexWithNegation(t, p.re, p.weight, p.label, p.negation, lexicon.negation);
             score += hit.score;
             if (hit.reasons.length) reasons.push(...hit.reasons);
         }
         const extraRe = getExtraRegex(tone);
         if (extraRe) {
-            const hit = scoreRegexWithNegation(t, extraRe, 2, "extra_terms");
+            const hit = scoreRegexWithNegation(t, extraRe, 2, "extra_terms", "skip", lexicon.negation);
             score += hit.score;
             if (hit.reasons.length) reasons.push(...hit.reasons);
         }
         return {tone, score, reasons};
-    };
-
-    const sadness = toneScore("sad", [
-        // Avoid common false positives:
-        // - "tear your gaze away" (tear as a verb) should not count as sadness
-        // - "regret nothing" should not count as sadness
-        {label: "sad_words", re: /\b(sad|sorrow|tearful|teary|cry(?:ing)?|sob(?:bing)?|regret(?:s|ted)?(?!\s+(?:nothing|none)\b)|heartbroken|grief|mourn(?:s|ing)?)\b/i, weight: 2},
-        {label: "tears_noun", re: /\b(?:his|her|their|my|your|the)\s+tears\b|\btears?\s+(?:well(?:s|ing)?\s+up|spill(?:s|ing)?|stream(?:s|ing)?|roll(?:s|ing)?(?:\s+down)?|fall(?:s|ing)?|in\s+(?:his|her|their|my|your)\s+eyes)\b/i, weight: 2},
-        {label: "apology", re: /\b(apolog(?:y|ize|ise)|sorry)\b/i, weight: 1},
-        {label: "hurt", re: /\b(hurt|aching|broken|heavy in (?:his|her|their|your) chest)\b/i, weight: 1},
-        {label: "tears_voice", re: /\b(voice cracks?|wipes? (?:a|his|her|their) tears?)\b/i, weight: 2},
-    ]);
-
-    const anger = toneScore("angry", [
-        {label: "anger_words", re: /\b(angry|furious|enraged|livid|mad|rage)\b/i, weight: 2},
-        {label: "aggressive_verbs", re: /\b(snaps?|snarls?|glares?|seeth(?:es|ing)|growls?)\b/i, weight: 2},
-        {label: "shouting", re: /\b(shouts?|yells?|screams?)\b/i, weight: 2},
-        {label: "dare", re: /\bhow dare you\b/i, weight: 2},
-    ]);
-
-    const anxiety = toneScore("anxious", [
-        {label: "anxiety_words", re: /\b(anxious|nervous|worried|uneasy|afraid|scared|fear(?:ful)?|panic(?:s|king)?|dread)\b/i, weight: 2},
-        {label: "tremble", re: /\b(trembl(?:e|es|ing)|shak(?:e|es|ing)|fidgets?|wrings? (?:his|her|their) hands)\b/i, weight: 1},
-        {label: "racing", re: /\b(heart races|can'?t breathe|short of breath)\b/i, weight: 1},
-    ]);
-
-    const affection = toneScore("affection", [
-        {label: "love_words", re: /\b(love|adore|cherish|treasure|fond)\b/i, weight: 2},
-        {label: "care_miss", re: /\b(miss you|care about you)\b/i, weight: 2},
-        {label: "tender", re: /\b(affectionately|tenderly|tender|affectionate|gentle|with a soft smile|smiles? softly|softly (?:says|whispers?|murmurs?)|warmly (?:smiles?|greets?))\b/i, weight: 1},
-        {label: "smile", re: /\b(smile(?:s|d|ing)?|grin(?:s|ned|ning)?)\b/i, weight: 1},
-    ]);
-
-    const embarrassment = toneScore("embarrassed", [
-        {label: "blush", re: /\b(blush(?:es|ed|ing)?|flustered|embarrass(?:ed|ing)|self-conscious|flush(?:es|ed)?)\b/i, weight: 2},
-        {label: "awkward_tells", re: /\b(looks away|averts (?:his|her|their) gaze|clears? (?:his|her|their) throat|stammers?)\b/i, weight: 1},
-    ]);
-
-    const jealousy = toneScore("jealous", [
-        {label: "jealous_words", re: /\b(jealous|possessive|envious|envy)\b/i, weight: 2},
-        {label: "tightens", re: /\b(something tightens|a sting of jealousy|can'?t stand the thought)\b/i, weight: 1},
-    ]);
-
-    const excitement = toneScore("excited", [
-        {label: "excited_words", re: /\b(excited|thrilled|giddy|eager|delighted|can'?t wait)\b/i, weight: 2},
-        {label: "laugh", re: /\b(laughs?|chuckles?)\b/i, weight: 1},
-        {label: "bright", re: /\b(eyes light up|can'?t help but smile)\b/i, weight: 1},
-    ]);
-
-    const tense = toneScore("tense", [
-        {label: "tense_words", re: /\b(tense|awkward|stiff|rigid|strained|uneasy)\b/i, weight: 2},
-        {label: "silence", re: /\b(an awkward silence|a beat of silence)\b/i, weight: 1},
-        {label: "hesitation", re: /\b(pauses?|hesitates?|swallows?)\b/i, weight: 1},
-        {label: "sigh", re: /\b(sighs?|exhales?|lets out (?:a|an) (?:slow )?breath)\b/i, weight: 1},
-    ]);
-
-    const toneScores = [affection, anger, anxiety, sadness, embarrassment, jealousy, excitement, tense]
-        .sort((a, b) => b.score - a.score);
+    }).sort((a, b) => b.score - a.score);
 
     const best = toneScores[0];
     const bestTone = best && best.score > 0 ? best.tone : "neutral";
-    const minScoreByTone: Record<string, number> = {
-        sad: 2,
-        angry: 2,
-        anxious: 2,
-        embarrassed: 2,
-        jealous: 2,
-        excited: 2,
-        affection: 1,
-        tense: 1,
-    };
-    const minScore = minScoreByTone[bestTone] ?? 1;
+    const bestDef = lexicon.tones.find((d) => d.tone === bestTone);
+    const minScore = bestDef?.minScore ?? 1;
     const tone = best && best.score >= minScore ? bestTone : "neutral";
 
-    // Preserve original behavior: *explicit* sadness/affection keywords imply at least medium intensity.
-    const forceMediumLabels = new Set<string>(["sad_words", "love_words", "care_miss"]);
-    const forcedMedium = (tone === "sad" || tone === "affection") && best && best.reasons.some((r) => forceMediumLabels.has(r.label));
+    // Preserve original behavior: *explicit* keywords (per the pack's `forceMediumLabels`) imply at least medium intensity.
+    const forcedMedium = tone !== "neutral" && !!bestDef && best.reasons.some((r) => bestDef.forceMediumLabels.has(r.label));
     const adjustedIntensity: EmotionIntensity = forcedMedium && intensity === "low" ? "medium" : intensity;
 
-    return {snapshot: {tone, intensity: adjustedIntensity}, toneScores};
+    // Blend the coordinates of every tone that scored, weighted by its score; a neutral read sits at the origin.
+    let base: EmotionVad = {valence: 0, arousal: 0, dominance: 0};
+    if (tone !== "neutral") {
+        const weighted = toneScores
+            .map((s) => ({score: s.score, vad: lexicon.tones.find((d) => d.tone === s.tone)?.vad}))
+            .filter((w): w is {score: number; vad: EmotionVad} => w.score > 0 && !!w.vad);
+        const total = weighted.reduce((acc, w) => acc + w.score, 0);
+        if (total > 0) {
+            base = {
+                valence: weighted.reduce((acc, w) => acc + w.score * w.vad.valence, 0) / total,
+                arousal: weighted.reduce((acc, w) => acc + w.score * w.vad.arousal, 0) / total,
+                dominance: weighted.reduce((acc, w) => acc + w.score * w.vad.dominance, 0) / total,
+            };
+        }
+    }
+    const vad = withIntensityArousal(base, adjustedIntensity);
+
+    // Keep the runner-up when it clears its own minimum, instead of flattening the message to one tone.
+    const second = toneScores[1];
+    const secondDef = second ? lexicon.tones.find((d) => d.tone === second.tone) : undefined;
+    const mixed = tone !== "neutral" && !!second && second.score > 0 && second.score >= (secondDef?.minScore ?? 1);
+    const secondaryTone = mixed ? second.tone : null;
+    const mix = mixed ? Math.round((best.score / (best.score + second.score)) * 100) / 100 : 1;
+
+    return {snapshot: {tone, intensity: adjustedIntensity, ...vad, secondaryTone, mix}, toneScores};
+}
+
+/**
+ * Tone weights of a snapshot: `{primary: mix, secondary: 1 - mix}` (or the single tone at 1).
+ */
+export function emotionBlend(snapshot: EmotionSnapshot): Record<string, number> {
+    const blend: Record<string, number> = {};
+    const mix = typeof snapshot.mix === "number" && snapshot.secondaryTone ? Math.max(0, Math.min(1, snapshot.mix)) : 1;
+    blend[snapshot.tone] = mix;
+    if (snapshot.secondaryTone && mix < 1) blend[snapshot.secondaryTone] = (blend[snapshot.secondaryTone] ?? 0) + (1 - mix);
+    return blend;
+}
+
+// Shared tone mass of two blends (0 = disjoint, 1 = identical); 60/40 vs 40/60 of the same pair is 0.8.
+export function blendOverlap(a: EmotionSnapshot, b: EmotionSnapshot): number {
+    const ba = emotionBlend(a);
+    const bb = emotionBlend(b);
+    let overlap = 0;
+    for (const [tone, w] of Object.entries(ba)) overlap += Math.min(w, bb[tone] ?? 0);
+    return Math.round(overlap * 100) / 100;
+}
+
+const INTENSITY_AROUSAL: Record<EmotionIntensity, number> = {low: 0, medium: 0.15, high: 0.3};
+
+function withIntensityArousal(vad: EmotionVad, intensity: EmotionIntensity): EmotionVad {
+    const round = (n: number) => Math.round(Math.max(-1, Math.min(1, n)) * 100) / 100;
+    return {
+        valence: round(vad.valence),
+        arousal: round(vad.arousal + (INTENSITY_AROUSAL[intensity] ?? 0)),
+        dominance: round(vad.dominance),
+    };
+}
+
+/**
+ * Valence/arousal/dominance of a snapshot. Older snapshots without coordinates fall back to the
+ * lexicon position of their tone blend (unknown tones sit at the origin).
+ */
+export function emotionVad(snapshot: EmotionSnapshot, lexicon?: CompiledLexicon | null): EmotionVad {
+    const {valence, arousal, dominance} = snapshot;
+    if (typeof valence === "number" && typeof arousal === "number" && typeof dominance === "number") {
+        return {valence, arousal, dominance};
+    }
+    const tones = (lexicon || DEFAULT_LEXICON).tones;
+    const base: EmotionVad = {valence: 0, arousal: 0, dominance: 0};
+    for (const [tone, w] of Object.entries(emotionBlend(snapshot))) {
+        const vad = tones.find((d) => d.tone === tone)?.vad;
+        if (!vad) continue;
+        base.valence += vad.valence * w;
+        base.arousal += vad.arousal * w;
+        base.dominance += vad.dominance * w;
+    }
+    return withIntensityArousal(base, snapshot.intensity);
+}
+
+export function vadDistance(a: EmotionVad, b: EmotionVad): number {
+    return Math.sqrt((a.valence - b.valence) ** 2 + (a.arousal - b.arousal) ** 2 + (a.dominance - b.dominance) ** 2);
 }
 
 export function extractEmotionSnapshot(text: string, tuning?: EmotionTuning): EmotionSnapshot {
     return scoreEmotionSnapshot(text, tuning).snapshot;
 }
 
-export function evaluateEmotionalDelta(current: EmotionSnapshot, recent: EmotionSnapshot[], content?: string) {
+// What is normal for one character: tone shares (blend-weighted, sum to ~1) and mean intensity (0 low .. 2 high).
+export type EmotionBaseline = {tones: Record<string, number>; intensity: number; samples: number; seeded: boolean};
+
+const BASELINE_DEFAULT_INTENSITY = 0.6;
+// Observed messages before an unseeded baseline is trusted.
+const BASELINE_MIN_SAMPLES = 5;
+
+const intensityValue = (s: EmotionSnapshot) => ({low: 0, medium: 1, high: 2}[s.intensity] ?? 0);
+
+export function createEmotionBaseline(): EmotionBaseline {
+    return {tones: {}, intensity: BASELINE_DEFAULT_INTENSITY, samples: 0, seeded: false};
+}
+
+/**
+ * Seed a baseline from the character card (`personality` + `description`): temperament cues set the
+ * expected intensity and the card's own emotional wording sets the starting tone mix.
+ */
+export function seedEmotionBaseline(cardText: string | null | undefined, lexicon?: CompiledLexicon | null): EmotionBaseline {
+    const baseline = createEmotionBaseline();
+    const t = (cardText || "").trim();
+    if (!t) return baseline;
+    const lex = lexicon || DEFAULT_LEXICON;
+    const reserved = lex.reserved.some((re) => hasAffirmedMatch(t, re, lex.negation));
+    const expressive = lex.expressive.some((re) => hasAffirmedMatch(t, re, lex.negation));
+    if (reserved && !expressive) baseline.intensity = 0.25;
+    else if (expressive && !reserved) baseline.intensity = 1.3;
+
+    const scored = scoreEmotionSnapshot(t, {lexicon: lex}).toneScores.filter((s) => s.score > 0);
+    const total = scored.reduce((acc, s) => acc + s.score, 0);
+    if (total > 0) {
+        for (const s of scored) baseline.tones[s.tone] = Math.round((s.score / total) * 1000) / 1000;
+    } else if (reserved) {
+        baseline.tones.neutral = 1;
+    }
+    baseline.seeded = reserved || expressive || total > 0;
+    return baseline;
+}
+
+/**
+ * Fold one snapshot into the rolling baseline: a running mean for the first messages, then an
+ * exponential average so the baseline follows slow character growth.
+ */
+export function updateEmotionBaseline(baseline: EmotionBaseline | null | undefined, snapshot: EmotionSnapshot): EmotionBaseline {
+    const prev = baseline || createEmotionBaseline();
+    // A seed counts as two observations; an unseeded baseline is replaced by the first one.
+    const alpha = Math.max(0.15, 1 / (prev.samples + (prev.seeded ? 3 : 1)));
+    const tones: Record<string, number> = {};
+    for (const [tone, share] of Object.entries(prev.tones)) tones[tone] = share * (1 - alpha);
+    for (const [tone, w] of Object.entries(emotionBlend(snapshot))) tones[tone] = (tones[tone] ?? 0) + w * alpha;
+    const kept = Object.entries(tones)
+        .filter(([, share]) => share >= 0.005)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10);
+    return {
+        tones: Object.fromEntries(kept.map(([tone, share]) => [tone, Math.round(share * 1000) / 1000])),
+        intensity: Math.round((prev.intensity * (1 - alpha) + intensityValue(snapshot) * alpha) * 1000) / 1000,
+        samples: prev.samples + 1,
+        seeded: prev.seeded,
+    };
+}
+
+export type EmotionalDeltaOptions = {
+    // The user's most recent snapshot; a bot shift that follows the user's own lead is not whiplash.
+    userSnapshot?: EmotionSnapshot | null;
+    // Resolves coordinates for snapshots persisted without them.
+    lexicon?: CompiledLexicon | null;
+    // The character's normal; shifts are weighed against it once it is seeded or has enough samples.
+    baseline?: EmotionBaseline | null;
+};
+
+export function evaluateEmotionalDelta(current: EmotionSnapshot, recent: EmotionSnapshot[], content?: string, opts?: EmotionalDeltaOptions) {
     const window = recent.slice(-5);
-    if (!window || window.length === 0) return {detected: false, summary: '', score: 0, reasons: [] as WeightedHit[]};
+    if (!window || window.length === 0) return {detected: false, summary: '', score: 0, distance: 0, deviation: null, reasons: [] as WeightedHit[]};
 
-    const intensityScore = (s: EmotionSnapshot) => ({low: 0, medium: 1, high: 2}[s.intensity] ?? 0);
+    const intensityScore = intensityValue;
     const avgPrevIntensity = Math.round(window.reduce((a, b) => a + intensityScore(b), 0) / window.length);
     const recentTones = window.map((s) => s.tone);
     const lastTone = recentTones[recentTones.length - 1] ?? '';
     const prevTones = Array.from(new Set(recentTones)).slice(-3);
+    const last = window[window.length - 1];
 
     const curIntensity = intensityScore(current);
-    const toneChanged = lastTone.length === 0 ? false : (lastTone !== current.tone);
+    // Compare blends, not winners: a 60/40 -> 40/60 swap of the same two tones is not a tone change.
+    const toneChanged = lastTone.length === 0 ? false : (lastTone !== current.tone && blendOverlap(last, current) < 0.5);
 
     const intensityJump = curIntensity - avgPrevIntensity;
     const absIntensityJump = Math.abs(intensityJump);
-    const steadyPrev = recentTones.length >= 3 && recentTones.every(t => t === lastTone);
+    const steadyPrev = window.length >= 3 && window.every((s) => blendOverlap(s, last) >= 0.5);
 
-    const polarity = (tone: string): "pos" | "neg" | "neutral" => {
-        if (["affection", "excited"].includes(tone)) return "pos";
-        if (["sad", "angry", "anxious", "jealous", "tense"].includes(tone)) return "neg";
-        return "neutral";
-    };
-    const prevPolarity = polarity(lastTone);
-    const curPolarity = polarity(current.tone);
-    const polarityFlip = prevPolarity !== curPolarity && prevPolarity !== "neutral" && curPolarity !== "neutral";
+    // Distance in valence/arousal/dominance space: "tense" -> "angry" is a step, "affection" -> "angry" a leap.
+    const distance = vadDistance(emotionVad(last, opts?.lexicon), emotionVad(current, opts?.lexicon));
+    const largeShift = distance >= 1.2;
 
     const reasons: WeightedHit[] = [];
     if (steadyPrev) pushWeighted(reasons, "steady_previous_window", 1);
     if (toneChanged) pushWeighted(reasons, "tone_changed", 1);
-    if (polarityFlip) pushWeighted(reasons, "polarity_flip", 2);
+    if (largeShift) pushWeighted(reasons, "vad_shift", 2);
+    else if (distance >= 0.9) pushWeighted(reasons, "vad_shift", 1);
     if (absIntensityJump >= 1) {
         const label = intensityJump >= 0 ? "intensity_spike" : "intensity_drop";
         pushWeighted(reasons, label, Math.min(3, absIntensityJump) * 2);
@@ -286,56 +515,87 @@ export function evaluateEmotionalDelta(current: EmotionSnapshot, recent: Emotion
     const hasTransitionCue = typeof content === "string" && transitionCues.test(content);
     if (hasTransitionCue) pushWeighted(reasons, "transition_cue_present", -2);
 
+    const userTone = opts?.userSnapshot?.tone;
+    const userLed = toneChanged && typeof userTone === "string" && userTone !== "neutral" && userTone === current.tone;
+    if (userLed) pushWeighted(reasons, "user_led_shift", -2);
+
+    // Character baseline: a stoic character's smile is a big deal, a bubbly one's grin is noise.
+    const base = opts?.baseline && (opts.baseline.seeded || opts.baseline.samples >= BASELINE_MIN_SAMPLES) ? opts.baseline : null;
+    let deviation: {toneShare: number; intensity: number} | null = null;
+    let outOfCharacter = false;
+    if (base) {
+        let share = 0;
+        for (const [tone, w] of Object.entries(emotionBlend(current))) share += w * (base.tones[tone] ?? 0);
+        const intensityDeviation = curIntensity - base.intensity;
+        outOfCharacter = toneChanged && share < 0.1 && current.tone !== "neutral";
+        if (outOfCharacter) pushWeighted(reasons, "out_of_character_tone", 1);
+        else if (toneChanged && share >= 0.3) pushWeighted(reasons, "in_character_tone", -1);
+        if (intensityDeviation >= 0.75) pushWeighted(reasons, "above_baseline_intensity", 1);
+        else if (absIntensityJump >= 1 && Math.abs(intensityDeviation) < 0.5) pushWeighted(reasons, "within_baseline_intensity", -1);
+        deviation = {toneShare: Math.round(share * 100) / 100, intensity: Math.round(intensityDeviation * 100) / 100};
+    }
+
     const score = sumWeights(reasons);
     // Default detection threshold; callers can also use `score` to tune by strictness.
     const detected = score >= 3 && (
         (absIntensityJump >= 2) ||
-        (polarityFlip && steadyPrev && curIntensity >= 1) ||
-        (toneChanged && steadyPrev && absIntensityJump >= 1)
+        (largeShift && steadyPrev && curIntensity >= 1) ||
+        (toneChanged && steadyPrev && absIntensityJump >= 1) ||
+        (outOfCharacter && steadyPrev)
     );
     const intensityWord = (n: number) => (n <= 0 ? "low" : n === 1 ? "medium" : "high");
     const prevToneLabel = lastTone && lastTone.length > 0 ? lastTone : "neutral";
     const summary = `${prevToneLabel}/${intensityWord(avgPrevIntensity)} → ${current.tone}/${intensityWord(curIntensity)}${prevTones.length > 1 ? ` (recent tones: ${prevTones.join(", ")})` : ""}`;
-    return {detected, summary, score, reasons};
+    return {detected, summary, score, distance: Math.round(distance * 100) / 100, deviation, reasons};
 }
 
-export function detectEscalationSignals(content: string, snapshot: EmotionSnapshot) {
-    const signals: Array<{type: string; suggestedPhase: RelationshipPhase; text: string; weight: number}> = [];
+export type EscalationSignal = {
+    type: string;
+    suggestedPhase: RelationshipPhase;
+    text: string;
+    weight: number;
+    source?: MessageSource;
+    // Set on "anticipation" signals: the escalation type that was only imagined, wished for, asked about or planned.
+    anticipates?: string;
+    modality?: Modality;
+};
+
+// Anticipated escalation ("if you kissed me...", "someday we'll...") still builds momentum, at a fraction of the weight.
+const ANTICIPATION_WEIGHT = 0.25;
+
+export function detectEscalationSignals(content: string, snapshot: EmotionSnapshot, lexicon?: CompiledLexicon | null) {
+    const signals: EscalationSignal[] = [];
     if (!content || content.trim().length === 0) return signals;
-    const t = content;
+    const lex = lexicon || DEFAULT_LEXICON;
+    // A recalled kiss is a callback, not escalation happening now.
+    const t = maskRecollections(content, lex).masked;
 
-    const pushUnique = (signal: {type: string; suggestedPhase: RelationshipPhase; text: string; weight: number}) => {
+    const pushUnique = (signal: EscalationSignal) => {
         if (signals.some((s) => s.type === signal.type)) return;
         signals.push(signal);
     };
 
-    if (hasAffirmedMatch(t, /\b(I\s+(?:feel|felt|confess|admit|can'?t help)\b|\bconfess(?:ed)?\b|\bcome(?:s|ing)? clean\b|\bthe truth is\b)/i)) {
-        pushUnique({type: 'emotional_disclosure', suggestedPhase: 'Familiar', text: t.slice(0, 200), weight: 1});
-    }
-
-    if (hasAffirmedMatch(t, /\b(I need you|don'?t leave|please stay|I can'?t live|depend on you|rely on you|I can'?t (?:do|be) (?:this|without you))\b/i)) {
-        pushUnique({type: 'dependency', suggestedPhase: 'Charged', text: t.slice(0, 200), weight: 2});
-    }
-
-    if (hasAffirmedMatch(t, /\b(hugs?|embrace(?:s|d)?|cuddl(?:e|es|ed|ing)|wraps? (?:an?|their) arm|takes? (?:your|his|her|their) hand|interlaces fingers|holds hands|leans? in|moves? closer|closes the distance|press(?:es|ed)? against|rests? (?:a|his|her|their) hand (?:on|against) (?:your|his|her|their) (?:arm|shoulder|waist|back))\b/i)) {
-        pushUnique({type: 'physical_closeness', suggestedPhase: 'Charged', text: t.slice(0, 200), weight: 1});
-    }
-
-    if (hasAffirmedMatch(t, /\b(kiss(?:es|ed|ing)?(?:\s+(?:you|me|him|her|them))?\s+on the lips|making love|have sex|sex\b|intercourse|nude|strip(?:s|ped|ping)?|undress(?:es|ed)?|moan(?:s|ed|ing)?|orgasm)\b/i)) {
-        pushUnique({type: 'physical_intimacy', suggestedPhase: 'Intimate', text: t.slice(0, 200), weight: 3});
-    }
-
-    if (hasAffirmedMatch(t, /\b(you'?re (?:beautiful|pretty|gorgeous|handsome)|can'?t stop looking at you|you look (?:good|amazing)|so cute|so hot|you smell (?:good|nice))\b/i)) {
-        pushUnique({type: 'attraction_language', suggestedPhase: 'Familiar', text: t.slice(0, 200), weight: 1});
-    }
-
-    if (hasAffirmedMatch(t, /\b(I love you|in love|falling for you|can'?t stop thinking about you)\b/i)) {
-        pushUnique({type: 'love_confession', suggestedPhase: 'Charged', text: t.slice(0, 200), weight: 3});
-    }
-
-    if (hasAffirmedMatch(t, /\b(date\b|girlfriend\b|boyfriend\b|partner\b|exclusive\b|relationship\b)\b/i)) {
-        pushUnique({type: 'commitment_language', suggestedPhase: 'Charged', text: t.slice(0, 200), weight: 2});
+    const anticipated: EscalationSignal[] = [];
+    for (const e of lex.escalation) {
+        const hit = findStatedMatch(t, e.re, lex, e.negation);
+        if (hit.stated) {
+            pushUnique({type: e.type, suggestedPhase: e.suggestedPhase, text: content.slice(0, 200), weight: e.weight});
+        } else if (hit.modality) {
+            anticipated.push({
+                type: "anticipation",
+                suggestedPhase: e.suggestedPhase,
+                text: content.slice(0, 200),
+                weight: e.weight * ANTICIPATION_WEIGHT,
+                anticipates: e.type,
+                modality: hit.modality,
+            });
+        }
     }
+    // One anticipation signal per message: the strongest escalation that did not actually happen.
+    const strongest = anticipated
+        .filter((a) => !signals.some((s) => s.type === a.anticipates))
+        .sort((a, b) => b.weight - a.weight)[0];
+    if (strongest) signals.push(strongest);
 
     if (snapshot.tone === 'affection' && snapshot.intensity === 'high') {
         pushUnique({type: 'affection_high', suggestedPhase: 'Charged', text: 'high-affection', weight: 1});
@@ -348,36 +608,45 @@ export function detectEscalationSignals(content: string, snapshot: EmotionSnapsh
 // Romance realism heuristics
 // -----------------------------
 
-export function detectMemoryEvents(content: string): string[] {
+/**
+ * Scar-worthy events stated as happening. Hypothetical, wished-for, dreamed, questioned or planned
+ * mentions ("if you lied to me...", "did you cheat?") and recollections of old events are not logged.
+ */
+export function detectMemoryEvents(content: string, lexicon?: CompiledLexicon | null): string[] {
     if (!content) return [];
-    const t = content;
+    const lex = lexicon || DEFAULT_LEXICON;
+    return memoryEventsIn(maskRecollections(content, lex).masked, lex);
+}
+
+function memoryEventsIn(t: string, lex: CompiledLexicon): string[] {
+    const stated = (re: RegExp) => findStatedMatch(t, re, lex).stated;
     const hits = new Set<string>();
 
     if (
-        hasAffirmedMatch(t, /\b(confess(?:ed)?|admit(?:s|ted)?|come(?:s|ing)? clean|the truth is)\b/i) ||
-        hasAffirmedMatch(t, /\b(I (?:need|have) to be honest|I have to tell you something|I should tell you|I owe you the truth)\b/i)
+        stated(/\b(confess(?:ed)?|admit(?:s|ted)?|come(?:s|ing)? clean|the truth is)\b/i) ||
+        stated(/\b(I (?:need|have) to be honest|I have to tell you something|I should tell you|I owe you the truth)\b/i)
     ) {
         hits.add('confession');
     }
 
     if (
-        hasAffirmedMatch(t, /\b(betray(?:s|ed)?|cheat(?:s|ed|ing)?|deceiv(?:e|es|ed)|gaslight(?:s|ed|ing)?)\b/i) ||
-        hasAffirmedMatch(t, /\b(lie(?:s|d)? to you|lied to you|lying to you)\b/i) ||
-        hasAffirmedMatch(t, /\b(hid(?:es|ing)? it|kept it from you|kept this from you|went behind your back|broke your trust)\b/i)
+        stated(/\b(betray(?:s|ed)?|cheat(?:s|ed|ing)?|deceiv(?:e|es|ed)|gaslight(?:s|ed|ing)?)\b/i) ||
+        stated(/\b(lie(?:s|d)? to you|lied to you|lying to you)\b/i) ||
+        stated(/\b(hid(?:es|ing)? it|kept it from you|kept this from you|went behind your back|broke your trust)\b/i)
     ) {
         hits.add('betrayal');
     }
 
     if (
-        hasAffirmedMatch(t, /\b(reject(?:s|ed)?|turns you down|pushes you away|not interested|breaks up|says no)\b/i) ||
-        hasAffirmedMatch(t, /\b(let'?s just be friends|I don'?t feel that way|not like that|I can'?t be with you|we shouldn'?t)\b/i)
+        stated(/\b(reject(?:s|ed)?|turns you down|pushes you away|not interested|breaks up|says no)\b/i) ||
+        stated(/\b(let'?s just be friends|I don'?t feel that way|not like that|I can'?t be with you|we shouldn'?t)\b/i)
     ) {
         hits.add('rejection');
     }
 
     if (
-        hasAffirmedMatch(t, /\b(argue(?:s|d)?|fight(?:s|ing)?|conflict|shout(?:s|ed|ing)?|yell(?:s|ed|ing)?|storm(?:s|ed)? off|slams? the door|snaps? at)\b/i) ||
-        hasAffirmedMatch(t, /\b(gives the silent treatment|won'?t talk to|refuses to speak)\b/i)
+        stated(/\b(argue(?:s|d)?|fight(?:s|ing)?|conflict|shout(?:s|ed|ing)?|yell(?:s|ed|ing)?|storm(?:s|ed)? off|slams? the door|snaps? at)\b/i) ||
+        stated(/\b(gives the silent treatment|won'?t talk to|refuses to speak)\b/i)
     ) {
         hits.add('conflict');
     }
@@ -385,6 +654,31 @@ export function detectMemoryEvents(content: string): string[] {
     return Array.from(hits);
 }
 
+/**
+ * Link recollections to the latest scar of the same event and to the escalation milestones they recall.
+ */
+export function recollectionCallbacks(
+    spans: Recollection[],
+    scars: MemoryScar[] | null | undefined,
+    lexicon?: CompiledLexicon | null,
+    now: number = Date.now(),
+): RecollectionCallback[] {
+    const lex = lexicon || DEFAULT_LEXICON;
+    const priorScars = Array.isArray(scars) ? scars : [];
+    return (spans || []).map((span) => {
+        const callback: RecollectionCallback = {text: span.text.slice(0, 200), at: now};
+        const events = memoryEventsIn(span.text, lex);
+        const scar = priorScars.slice().reverse().find((s) => events.includes(s.event));
+        if (scar) {
+            callback.scar = scar.event;
+            callback.scarAt = scar.at;
+        }
+        const milestones = lex.escalation.filter((e) => findStatedMatch(span.text, e.re, lex, e.negation).stated).map((e) => e.type);
+        if (milestones.length > 0) callback.milestones = Array.from(new Set(milestones));
+        return callback;
+    });
+}
+
 export function detectSubtext(content: string): string[] {
     return scoreSubtext(content).notes;
 }
@@ -449,6 +743,278 @@ export function recallMemoryScar(scars: MemoryScar[], lastScarRecallIdx: number
     };
 }
 
+const CORE_LADDER = BUILTIN_LADDERS[DEFAULT_LADDER_ID];
+
+const NEGATIVE_TONES = ["sad", "angry", "anxious", "jealous", "tense"];
+const POSITIVE_TONES = ["affection", "excited"];
+
+/**
+ * Regression model: serious scars, explicit distancing, or a cold stretch can lower the phase.
+ * Returns the proposed phase; callers own history entries and cooldowns.
+ */
+export function evaluatePhaseRegression(params: {
+    phase: RelationshipPhase;
+    content: string;
+    scarEvents: string[];
+    recentEmotions: EmotionSnapshot[];
+    turnsSinceSignal: number;
+    allowColdStretch?: boolean;
+    ladder?: RelationshipLadder | null;
+}): {regressed: boolean; from: RelationshipPhase; next: RelationshipPhase; score: number; reasons: WeightedHit[]} {
+    const phases = (params.ladder || CORE_LADDER).phases;
+    const from = params.phase;
+    const idx = Math.max(0, phases.indexOf(from));
+    const reasons: WeightedHit[] = [];
+    if (idx === 0) return {regressed: false, from, next: from, score: 0, reasons};
+
+    const scars = new Set(params.scarEvents || []);
+    if (scars.has("betrayal")) pushWeighted(reasons, "scar_betrayal", 3);
+    if (scars.has("rejection")) pushWeighted(reasons, "scar_rejection", 3);
+    if (scars.has("conflict")) pushWeighted(reasons, "scar_conflict", 1);
+
+    const narrative = stripQuotedDialogue(params.content || "");
+    const spoken = params.content || "";
+    const distancing =
+        /\b(I need (?:some )?space|need some distance|keep (?:this|things|it) professional|we should stop (?:this|seeing each other)|it'?s over|we'?re done|(?:go )?back to (?:being )?(?:just )?friends|I don'?t want (?:this|us) anymore|this was a mistake|forget (?:it|that) ever happened)\b/i;
+    const distancingAction = /\b(pulls? away from (?:you|him|her|them)|turns? (?:her|his|their) back on|keeps? (?:you|him|her|them) at arm'?s length|shuts? (?:you|him|her|them) out|goes? cold)\b/i;
+    if (hasAffirmedMatch(spoken, distancing) || hasAffirmedMatch(narrative, distancingAction)) pushWeighted(reasons, "explicit_distancing", 3);
+
+    if (params.allowColdStretch !== false) {
+        const emos = (params.recentEmotions || []).slice(-4);
+        const noWarmth = emos.length >= 4 && emos.every((e) => !POSITIVE_TONES.includes(e.tone));
+        const negatives = emos.filter((e) => NEGATIVE_TONES.includes(e.tone)).length;
+        if (noWarmth && negatives >= 2 && params.turnsSinceSignal >= 6) pushWeighted(reasons, "cold_stretch", 3);
+    }
+
+    const score = sumWeights(reasons);
+    if (score < 3) return {regressed: false, from, next: from, score, reasons};
+    const steps = score >= 6 && idx >= 2 ? 2 : 1;
+    const next = phases[Math.max(0, idx - steps)];
+    return {regressed: true, from, next, score, reasons};
+}
+
+export type PhasePacing = {
+    phase: RelationshipPhase;
+    // Climb measured from the last regression (or the start of the chat).
+    from: RelationshipPhase;
+    budget: Required<PhaseDwell>;
+    elapsed: Required<PhaseDwell>;
+    // elapsed / budget on the better of the two clocks; 1 means on pace, below 1 means ahead of pace.
+    score: number;
+    rushed: boolean;
+    turnsAhead: number;
+    minutesAhead: number;
+};
+
+/**
+ * Pacing of the climb to `phase`: the summed minimum dwell of the rungs below it versus the turns and
+ * in-story minutes actually spent since the climb started. Either clock meeting its budget counts as earned,
+ * so a narrated time skip ("three weeks later") pays for a short run of turns.
+ */
+export function evaluatePhasePacing(params: {
+    phase: RelationshipPhase;
+    phaseHistory: PhaseHistoryEntry[];
+    turn: number;
+    storyMinutes: number;
+    ladder?: RelationshipLadder | null;
+    // Multiplies every dwell (strictness).
+    scale?: number;
+}): PhasePacing {
+    const ladder = params.ladder || CORE_LADDER;
+    const scale = typeof params.scale === "number" && Number.isFinite(params.scale) ? Math.max(0, params.scale) : 1;
+    const lastDown = (params.phaseHistory || []).filter((e) => e && (e.direction === "down" || e.seeded)).slice(-1)[0];
+    const from = lastDown && ladder.phases.includes(lastDown.phase) ? lastDown.phase : ladder.phases[0];
+    const startTurn = lastDown && typeof lastDown.turn === "number" ? lastDown.turn : 0;
+    const startMinutes = lastDown && typeof lastDown.storyMinutes === "number" ? lastDown.storyMinutes : 0;
+
+    const budget = {turns: 0, minutes: 0};
+    const toIdx = ladder.phases.indexOf(params.phase);
+    for (const rung of ladder.phases.slice(ladder.phases.indexOf(from), Math.max(0, toIdx))) {
+        const dwell = ladder.minDwell?.[rung];
+        budget.turns += Math.round((dwell?.turns || 0) * scale);
+        budget.minutes += Math.round((dwell?.minutes || 0) * scale);
+    }
+    const elapsed = {
+        turns: Math.max(0, params.turn - startTurn),
+        minutes: Math.max(0, params.storyMinutes - startMinutes),
+    };
+    const ratios: number[] = [];
+    if (budget.turns > 0) ratios.push(elapsed.turns / budget.turns);
+    if (budget.minutes > 0) ratios.push(elapsed.minutes / budget.minutes);
+    const score = ratios.length > 0 ? Math.round(Math.max(...ratios) * 100) / 100 : 1;
+    const rushed = score < 1;
+    return {
+        phase: params.phase,
+        from,
+        budget,
+        elapsed,
+        score,
+        rushed,
+        turnsAhead: rushed ? Math.max(0, budget.turns - elapsed.turns) : 0,
+        minutesAhead: rushed ? Math.max(0, budget.minutes - elapsed.minutes) : 0,
+    };
+}
+
+export function formatStoryMinutes(minutes: number): string {
+    if (minutes >= 1440) {
+        const days = Math.round(minutes / 1440);
+        return `${days} day${days === 1 ? "" : "s"}`;
+    }
+    if (minutes >= 60) {
+        const hours = Math.round(minutes / 60);
+        return `${hours} hour${hours === 1 ? "" : "s"}`;
+    }
+    return `${Math.max(0, Math.round(minutes))} min`;
+}
+
+/**
+ * Note for a phase reached ahead of its pacing budget, or null when the climb is on pace. The budget is named after
+ * `ladder` (default: the slow burn ladder).
+ */
+export function describeRushedPhase(pacing: PhasePacing, ladder: RelationshipLadder = CORE_LADDER): string | null {
+    if (!pacing.rushed) return null;
+    const ahead: string[] = [];
+    if (pacing.turnsAhead > 0) ahead.push(`${pacing.turnsAhead} turn${pacing.turnsAhead === 1 ? "" : "s"}`);
+    if (pacing.minutesAhead > 0) ahead.push(`${formatStoryMinutes(pacing.minutesAhead)} of story time`);
+    const took = `${pacing.elapsed.turns} turn${pacing.elapsed.turns === 1 ? "" : "s"}, ${formatStoryMinutes(pacing.elapsed.minutes)}`;
+    return `pacing: ${pacing.phase} reached ${ahead.join(" / ")} ahead of the ${ladder.name || ladder.id} budget (${pacing.from} → ${pacing.phase} took ${took}; pace ${Math.round(pacing.score * 100)}%). Let this phase breathe before escalating further.`;
+}
+
+function hasRepairBeat(t: string): boolean {
+    return hasResolutionCue(stripQuotedDialogue(t)) || hasAffirmedMatch(t, /\b(I'?m (?:so )?sorry|forgive me|I was wrong|apologi[sz]es?)\b/i);
+}
+
+export function createRelationshipAxes(): RelationshipAxes {
+    return {trust: 30, attraction: 20, tension: 20, comfort: 30};
+}
+
+// How much each event moves the axes. Signal types not listed here (domain packs) leave the axes alone.
+const AXIS_EFFECTS: Record<string, Partial<RelationshipAxes>> = {
+    emotional_disclosure: {trust: 4, comfort: 2},
+    attraction_language: {attraction: 5, tension: 2},
+    physical_closeness: {comfort: 3, attraction: 2},
+    physical_intimacy: {attraction: 6, tension: 3},
+    love_confession: {attraction: 5, trust: 2, tension: 3},
+    commitment_language: {trust: 3, comfort: 3},
+    dependency: {tension: 3, comfort: 1},
+    scar_confession: {trust: 3, tension: 2},
+    scar_betrayal: {trust: -25, tension: 10, comfort: -10},
+    scar_rejection: {attraction: -5, tension: 8, comfort: -10},
+    scar_conflict: {tension: 8, comfort: -5},
+    repair: {trust: 6, tension: -10, comfort: 4},
+    subtext: {tension: 2},
+    consent_issue: {trust: -8, comfort: -8},
+};
+
+/**
+ * Move the relationship axes for one message: escalation signals, scars, a repair beat, subtext and consent issues
+ * each apply their `AXIS_EFFECTS` entry (consent issues once per issue); an anticipated move applies the effect of
+ * what it anticipates at `ANTICIPATION_WEIGHT`. Returns the per-axis changes as reasons.
+ */
+export function updateRelationshipAxes(axes: RelationshipAxes | null | undefined, params: {
+    content: string;
+    signals?: EscalationSignal[];
+    scarEvents?: string[];
+    consentIssues?: string[];
+    subtext?: boolean;
+}): {axes: RelationshipAxes; changes: WeightedHit[]} {
+    const next = {...createRelationshipAxes(), ...(axes || {})};
+    const events: Array<{event: string; scale: number}> = [];
+    for (const s of params.signals || []) events.push(s.anticipates ? {event: s.anticipates, scale: ANTICIPATION_WEIGHT} : {event: s.type, scale: 1});
+    for (const e of params.scarEvents || []) events.push({event: `scar_${e}`, scale: 1});
+    if (params.content && hasRepairBeat(params.content)) events.push({event: "repair", scale: 1});
+    if (params.subtext) events.push({event: "subtext", scale: 1});
+    for (let i = 0; i < (params.consentIssues || []).length; i++) events.push({event: "consent_issue", scale: 1});
+
+    const totals: Partial<RelationshipAxes> = {};
+    for (const {event, scale} of events) {
+        for (const [axis, delta] of Object.entries(AXIS_EFFECTS[event] || {}) as Array<[keyof RelationshipAxes, number]>) {
+            totals[axis] = (totals[axis] || 0) + delta * scale;
+        }
+    }
+    const changes: WeightedHit[] = [];
+    for (const axis of RELATIONSHIP_AXES) {
+        const delta = totals[axis] || 0;
+        if (delta === 0) continue;
+        next[axis] = Math.max(0, Math.min(100, Math.round(next[axis] + delta)));
+        changes.push({label: axis, weight: Math.round(delta * 100) / 100});
+    }
+    return {axes: next, changes};
+}
+
+/**
+ * Mismatches between the axes and what this turn did: intimacy rising (an intimacy signal, or a step up into the
+ * upper rungs / intimate proximity) while trust is low, or moving physically closer without comfort.
+ */
+export function detectAxisMismatch(params: {
+    axes: RelationshipAxes;
+    phase?: RelationshipPhase | null;
+    ladder?: RelationshipLadder | null;
+    proximity?: Proximity | null;
+    signals?: EscalationSignal[];
+    // Phase or proximity stepped up this turn.
+    advanced?: boolean;
+}): {note: string | null; score: number; reasons: WeightedHit[]} {
+    const {axes} = params;
+    const phases = (params.ladder || CORE_LADDER).phases;
+    const phaseIdx = params.phase ? phases.indexOf(params.phase) : -1;
+    const stated = (params.signals || []).filter((s) => !s.anticipates).map((s) => s.type);
+    const upperRung = phaseIdx >= 0 && phaseIdx >= phases.length - 2;
+    const intimacyRising = stated.includes("physical_intimacy") || stated.includes("love_confession")
+        || (params.advanced === true && (upperRung || params.proximity === "Intimate"));
+    const closer = stated.includes("physical_closeness") || params.advanced === true;
+    const reasons: WeightedHit[] = [];
+    const parts: string[] = [];
+    if (intimacyRising && axes.trust < 30) {
+        pushWeighted(reasons, "intimacy_without_trust", axes.attraction >= 60 ? 3 : 2);
+        parts.push(`intimacy is rising while trust is low (trust ${axes.trust}, attraction ${axes.attraction})`);
+    }
+    if (closer && (params.proximity === "Touching" || params.proximity === "Intimate") && axes.comfort < 20) {
+        pushWeighted(reasons, "closeness_without_comfort", 2);
+        parts.push(`they are physically close without comfort (comfort ${axes.comfort})`);
+    }
+    if (parts.length === 0) return {note: null, score: 0, reasons};
+    return {
+        note: `relationship mismatch: ${parts.join("; ")}. Let the wariness show, or earn it back before going further.`,
+        score: sumWeights(reasons),
+        reasons,
+    };
+}
+
+/**
+ * After a regression, flag replies that carry on at the old intimacy level without a repair beat.
+ */
+export function detectPostRegressionCarryOn(params: {
+    regression: PhaseRegressionState | null | undefined;
+    content: string;
+    signals: EscalationSignal[];
+    proximity?: Proximity | null;
+    ladder?: RelationshipLadder | null;
+}): {note: string | null; repaired: boolean; reasons: WeightedHit[]} {
+    const reg = params.regression;
+    if (!reg) return {note: null, repaired: false, reasons: []};
+    const t = params.content || "";
+    const repaired = hasRepairBeat(t);
+    if (repaired) return {note: null, repaired: true, reasons: [{label: "repair_beat", weight: -3}]};
+
+    const ladder = params.ladder || CORE_LADDER;
+    const fromIdx = ladder.phases.indexOf(reg.from);
+    const reasons: WeightedHit[] = [];
+    for (const s of params.signals || []) {
+        if (s.anticipates) continue;
+        if (ladder.phases.indexOf(ladderPhaseFor(ladder, s)) >= fromIdx) pushWeighted(reasons, `signal_${s.type}`, s.weight);
+    }
+    // The top two rungs of any ladder are the ones where intimate proximity is in keeping.
+    if (params.proximity === "Intimate" && fromIdx >= ladder.phases.length - 2) pushWeighted(reasons, "intimate_proximity", 1);
+    if (reasons.length === 0) return {note: null, repaired: false, reasons};
+    const why = reg.reasons.length > 0 ? ` after ${reg.reasons.join("/")}` : "";
+    return {
+        note: `phase regressed ${reg.from} → ${reg.to}${why}, but this reply carries on at the old ${reg.from} level. Show a repair beat before rebuilding intimacy.`,
+        repaired: false,
+        reasons,
+    };
+}
+
 export function detectDrift(params: {
     recentEmotions: EmotionSnapshot[];
     phaseHistory: PhaseHistoryEntry[];
@@ -457,6 +1023,9 @@ export function detectDrift(params: {
     driftNotes: number[];
     recentSignalWeight?: number;
     proximityChanged?: boolean;
+    // When given, the note points at the next rung of the ladder.
+    phase?: RelationshipPhase | null;
+    ladder?: RelationshipLadder | null;
 }): string | null {
     const driftWindow = params.strictness === 3 ? 8 : params.strictness === 1 ? 15 : 12;
     const recentDriftNotes = (params.driftNotes || []).filter((t) => params.turnIndex - t < driftWindow);
@@ -466,13 +1035,16 @@ export function detectDrift(params: {
     const phaseStable = lastPhases.length >= 2 && new Set(lastPhases.map((p) => p.phase)).size === 1;
 
     const emos = (params.recentEmotions || []).slice(-5);
-    const toneSet = new Set(emos.map((e) => e.tone));
-    const emotionalStagnant = emos.length >= 3 && toneSet.size <= 1;
+    const latest = emos[emos.length - 1];
+    const emotionalStagnant = emos.length >= 3 && emos.every((e) => blendOverlap(e, latest) >= 0.75);
     const signalWeight = typeof params.recentSignalWeight === 'number' ? params.recentSignalWeight : 0;
     const noMomentum = signalWeight <= 0 && params.proximityChanged !== true;
 
     if (phaseStable && emotionalStagnant && noMomentum) {
-        return 'Drift detected: phase/emotion are flat. Consider a new beat (question, reveal, micro-conflict, or setting shift).';
+        const phases = params.ladder?.phases || [];
+        const idx = params.phase ? phases.indexOf(params.phase) : -1;
+        const toward = idx >= 0 && idx < phases.length - 1 ? ` toward ${phases[idx + 1]}` : '';
+        return `Drift detected: phase/emotion are flat. Consider a new beat${toward} (question, reveal, micro-conflict, or setting shift).`;
     }
     return null;
 }
@@ -511,31 +1083,114 @@ export function scoreSilenceOrPause(content: string): {note: string | null; scor
     return {note: null, score: 0, reasons: []};
 }
 
+// Position of the last stated match (-1 if none); `modal` reports whether a modal-only mention was seen.
+function lastMatchIndex(text: string, re: RegExp, affirmedOnly: boolean, lexicon: CompiledLexicon = DEFAULT_LEXICON): {at: number; modal: boolean} {
+    if (!text) return {at: -1, modal: false};
+    const flags = re.flags.includes("g") ? re.flags : `${re.flags}g`;
+    const global = new RegExp(re.source, flags);
+    let last = -1;
+    let modal = false;
+    let m: RegExpExecArray | null;
+    while ((m = global.exec(text)) != null) {
+        if (m.index == null) continue;
+        if (affirmedOnly && isNegatedAt(text, m.index)) continue;
+        if (modalityAt(text, m.index, lexicon)) {
+            modal = true;
+            continue;
+        }
+        last = m.index;
+    }
+    return {at: last, modal};
+}
+
+export type ProximityDirection = "forward" | "retreat" | "none";
+
 export function evaluateProximityTransition(
     content: string,
     current: Proximity | null | undefined,
-): {from: Proximity; next: Proximity; skipped: boolean; changed: boolean; score: number; evidence: Proximity[]; missing: Proximity[]} {
+    lexicon?: CompiledLexicon | null,
+): {
+    from: Proximity;
+    next: Proximity;
+    skipped: boolean;
+    changed: boolean;
+    score: number;
+    evidence: Proximity[];
+    missing: Proximity[];
+    direction: ProximityDirection;
+    retreatCues: string[];
+    // Forward proximity that was only imagined, wished for, asked about or planned (not a state change).
+    anticipated: Proximity[];
+} {
     const order: Proximity[] = ["Distant", "Nearby", "Touching", "Intimate"];
     const cur = current || "Distant";
-    const t = content || "";
+    const lex = lexicon || DEFAULT_LEXICON;
+    // Recalled moments never move proximity.
+    const t = maskRecollections(content || "", lex).masked;
+    const anticipated: Proximity[] = [];
 
-    // Collect all proximity evidence present in the message.
+    // Collect all proximity evidence present in the message (with the position of its last mention).
     const evidence: Proximity[] = [];
+    let lastForwardAt = -1;
+    let lastDistantAt = -1;
     const addEvidence = (p: Proximity, re: RegExp) => {
-        if (re.test(t)) evidence.push(p);
+        const {at, modal} = lastMatchIndex(t, re, false, lex);
+        if (modal && p !== "Distant") anticipated.push(p);
+        if (at < 0) return;
+        evidence.push(p);
+        if (p === "Distant") lastDistantAt = Math.max(lastDistantAt, at);
+        else lastForwardAt = Math.max(lastForwardAt, at);
     };
 
-    addEvidence("Distant", /\b(across the room|keeps (?:his|her|their) distance|stands back|far away)\b/i);
-    addEvidence("Nearby", /\b(steps closer|approaches?|closes the distance|sits beside|next to|nearby|close by|leans closer)\b/i);
+    // Accept base verb forms too ("I step closer") so first-person user turns are recognized.
+    addEvidence("Distant", /\b(across the room|keeps? (?:my|his|her|their) distance|stands? back|far away)\b/i);
+    addEvidence("Nearby", /\b(steps? closer|approach(?:es)?|closes? the distance|sits? beside|next to|nearby|close by|leans? closer)\b/i);
     // Avoid adjective false positives like "a touching moment" by requiring an object/target for touch.
     addEvidence("Touching", /\b(hand in hand|holds?|takes? (?:your|his|her|their) hand|interlaces fingers|brush(?:es|ed)? (?:your|his|her|their)?\s*(?:hand|fingers|arm)|rests? (?:a|his|her|their) hand (?:on|against)|hand on|caress(?:es|ed)?|touch(?:es|ed|ing)?\s+(?:you|him|her|them|your|his|her|their))\b/i);
     addEvidence("Intimate", /\b(embrace(?:s|d)? tightly|press(?:es|ed)? against|kiss(?:es|ed|ing)?|straddles|in (?:his|her|their) lap)\b/i);
 
+    // Retreat cues lower proximity: releasing contact drops to Nearby, leaving or being apart drops to Distant.
+    // These are negation-aware ("doesn't let go" is not a retreat).
+    const retreatCues: Array<{label: string; target: Proximity; at: number}> = [];
+    const addRetreat = (label: string, target: Proximity, re: RegExp) => {
+        const {at} = lastMatchIndex(t, re, true, lex);
+        if (at >= 0) retreatCues.push({label, target, at});
+    };
+    addRetreat("lets_go", "Nearby", /\b(lets? go|releases? (?:you|him|her|them|your hand|his hand|her hand|their hand)|breaks? (?:the|their) embrace|untangles?)\b/i);
+    addRetreat("steps_back", "Nearby", /\b(steps? back|pulls? away|draws? back|shifts? away|leans? back|puts? some distance)\b/i);
+    addRetreat("leaves", "Distant", /\b(leaves? the (?:room|house|apartment|table)|walks? (?:out|away|off)|(?:walks?|heads?) (?:to|for|toward|towards) the door|storms? (?:off|out)|goes? home|drives? (?:away|off)|hangs? up|closes? the door behind)\b/i);
+    addRetreat("apart", "Distant", /\b(in (?:a )?different (?:rooms?|places?|cities|city|towns?)|miles (?:away|apart)|across town|far apart)\b/i);
+    if (lastDistantAt >= 0) retreatCues.push({label: "distant_evidence", target: "Distant", at: lastDistantAt});
+
     const uniqEvidence = Array.from(new Set(evidence));
+    const curIndex = order.indexOf(cur);
+    const trailingRetreats = retreatCues.filter((r) => r.at > lastForwardAt);
+    if (trailingRetreats.length > 0) {
+        // The message ends moving apart: take the deepest retreat, never moving forward.
+        const targetIndex = Math.min(...trailingRetreats.map((r) => order.indexOf(r.target)));
+        const nextIndex = Math.min(curIndex, targetIndex);
+        const next = order[nextIndex];
+        const changed = next !== cur;
+        return {
+            from: cur,
+            next,
+            skipped: false,
+            changed,
+            score: changed ? 1 : 0,
+            evidence: uniqEvidence,
+            missing: [],
+            direction: changed ? "retreat" : "none",
+            retreatCues: trailingRetreats.map((r) => r.label),
+            anticipated,
+        };
+    }
+
     const highest = (p: Proximity[]) => p.reduce((acc, curP) => (order.indexOf(curP) > order.indexOf(acc) ? curP : acc), "Distant" as Proximity);
-    const next = uniqEvidence.length > 0 ? highest(uniqEvidence) : cur;
+    const forward = uniqEvidence.filter((p) => p !== "Distant");
+    const highestEvidence = forward.length > 0 ? highest(forward) : cur;
+    // Forward evidence never lowers proximity; retreats are handled above.
+    const next = order.indexOf(highestEvidence) > curIndex ? highestEvidence : cur;
 
-    const curIndex = order.indexOf(cur);
     const nextIndex = order.indexOf(next);
     const intermediate = order.slice(curIndex + 1, nextIndex);
     const hasIntermediateEvidence = intermediate.some((p) => uniqEvidence.includes(p));
@@ -543,52 +1198,671 @@ export function evaluateProximityTransition(
     const changed = next !== cur;
     const score = skipped ? 3 : changed ? 1 : 0;
     const missing = skipped ? intermediate : [];
-    return {from: cur, next, skipped, changed, score, evidence: uniqEvidence, missing};
+    return {from: cur, next, skipped, changed, score, evidence: uniqEvidence, missing, direction: changed ? "forward" : "none", retreatCues: [], anticipated};
+}
+
+export type UserTurnAnalysis = {
+    snapshot: EmotionSnapshot;
+    signals: EscalationSignal[];
+    scarEvents: string[];
+    proximity: ReturnType<typeof evaluateProximityTransition>;
+    storyMinutes: number;
+};
+
+/**
+ * Run the partner-agnostic detectors on the user's own turn so relationship state reflects both sides.
+ * The user's moves are never judged (no skip warnings); they only move the baseline the bot reply is checked against.
+ */
+export function analyzeUserMessage(content: string, params?: {proximity?: Proximity | null; tuning?: EmotionTuning}): UserTurnAnalysis {
+    const t = content || "";
+    const snapshot = extractEmotionSnapshot(t, params?.tuning);
+    const signals = detectEscalationSignals(t, snapshot, params?.tuning?.lexicon).map((s) => ({...s, source: "user" as const}));
+    const scarEvents = detectMemoryEvents(t, params?.tuning?.lexicon);
+    const proximity = evaluateProximityTransition(t, params?.proximity, params?.tuning?.lexicon);
+    return {snapshot, signals, scarEvents, proximity, storyMinutes: storyTimeAdvance(t, params?.tuning?.lexicon)};
 }
 
-export function detectConsentIssues(content: string): string[] {
+export function detectConsentIssues(content: string, lexicon?: CompiledLexicon | null): string[] {
     if (!content) return [];
     const issues = new Set<string>();
-    const t = content;
-    const narrative = stripQuotedDialogue(t);
-    // Anchor "you feel/think..." assertions to sentence boundaries to avoid interrogatives like "Do you feel...?"
-    const boundary = /(^|[.!?]\s+|;\s+|:\s+)\s*/i;
-    if (new RegExp(`${boundary.source}you\\s+(?:feel|felt|are overcome|can'?t help but feel|can'?t resist)\\b`, "i").test(narrative)) {
-        issues.add('assigns emotions to the user');
+    const narrative = stripQuotedDialogue(content);
+    const lex = lexicon || DEFAULT_LEXICON;
+    for (const c of lex.consent) {
+        if (issues.has(c.issue)) continue;
+        if (c.unless && c.unless.test(narrative)) continue;
+        const hit = c.negation === "ignore" ? c.re.test(narrative) : hasAffirmedMatch(narrative, c.re, lex.negation);
+        if (hit) issues.add(c.issue);
     }
+    return Array.from(issues);
+}
 
-    if (!/\bif you must\b/i.test(narrative) && /\b(you must|you have no choice|without your consent|against your will|ignoring your protest|forces you|doesn'?t let you|won'?t let you)\b/i.test(narrative)) {
-        issues.add('forces decisions/consent onto the user');
+/**
+ * Weight detected consent issues using the lexicon (the highest-weighted pattern per issue).
+ * Any issue flagged `critical` in the pack makes the note critical (bypasses quota).
+ */
+export function scoreConsentIssues(issues: string[], lexicon?: CompiledLexicon | null): {score: number; critical: boolean} {
+    const lex = lexicon || DEFAULT_LEXICON;
+    let score = 0;
+    let critical = false;
+    for (const issue of issues || []) {
+        const defs = lex.consent.filter((c) => c.issue === issue);
+        score += defs.length ? Math.max(...defs.map((c) => c.weight)) : 2;
+        if (defs.some((c) => c.critical)) critical = true;
     }
+    return {score, critical};
+}
 
-    if (/\b(grabs you|pins you|holds you down|forces a kiss|pushes you onto|gropes you)\b/i.test(narrative)) {
-        issues.add('coercive physical action');
-    }
+export type BoundaryViolation = {topic: string; level: BoundaryLevel; boundary: string; evidence: string};
 
-    if (/\b(inside your mind|your thoughts say|your inner voice)\b/i.test(narrative) || new RegExp(`${boundary.source}you\\s+(?:think to yourself|think|wonder|remember)\\b`, "i").test(narrative)) {
-        issues.add('describes internal monologue for the user');
+/**
+ * Boundaries the reply crosses: active limits (see `isBoundaryActive`) whose topic cues or terms match as stated
+ * action. Negated, hypothetical and recalled mentions ("he doesn't kiss her", "if you kissed me") don't count.
+ */
+export function detectBoundaryViolations(
+    content: string,
+    boundaries: Boundary[] | null | undefined,
+    params: {phase: RelationshipPhase; proximity: Proximity; ladder?: RelationshipLadder | null},
+    lexicon?: CompiledLexicon | null,
+): BoundaryViolation[] {
+    if (!content || !boundaries || boundaries.length === 0) return [];
+    const lex = lexicon || DEFAULT_LEXICON;
+    const ladder = params.ladder || CORE_LADDER;
+    const t = maskRecollections(content, lex).masked;
+    const out: BoundaryViolation[] = [];
+    for (const b of boundaries) {
+        if (!isBoundaryActive(b, {phase: params.phase, proximity: params.proximity, ladder})) continue;
+        const res = (lex.boundaryTopics[b.topic] || []).slice();
+        const terms = b.terms || (res.length === 0 ? [b.topic.replace(/_/g, " ")] : []);
+        const extra = compileLooseTermsRegex(terms);
+        if (extra) res.push(compileWordRegex(extra.source, "i", lex.unicode));
+        for (const re of res) {
+            const hit = findStatedMatch(t, re, lex);
+            if (!hit.stated) continue;
+            const evidence = (t.slice(hit.at).match(re) || [""])[0];
+            out.push({topic: b.topic, level: b.level, boundary: describeBoundary(b), evidence});
+            break;
+        }
     }
+    return out;
+}
+
+export type StopIntent = {kind: "safe_word" | "stop_intent"; trigger: string};
+
+// Lines of at most this many words (outside dialogue) are read as the user talking out of character.
+const STANDALONE_STOP_WORDS = 20;
 
-    if (/\b(your body (?:betrays|responds)|a shiver runs through you)\b/i.test(narrative)) {
-        issues.add('describes involuntary bodily response for the user');
+// Out-of-character parts of a user message: bracketed asides, `OOC:` lines and short lines, with quoted dialogue removed.
+function outOfCharacterSpans(text: string): string[] {
+    const spans = Array.from(text.matchAll(/[([]+([^()[\]]{1,200})[)\]]+/g), (m) => m[1]);
+    for (const line of text.split(/\n+/)) {
+        const ooc = /^\s*\W*ooc\s*:\s*(.*)$/i.exec(line);
+        if (ooc) spans.push(ooc[1]);
+        else if (line.trim().split(/\s+/).length <= STANDALONE_STOP_WORDS) spans.push(line);
     }
+    return spans.map((s) => stripQuotedDialogue(s).trim()).filter(Boolean);
+}
 
-    return Array.from(issues);
+/**
+ * Stop request in a user message: a configured safe word sent on its own (the whole message, its own line,
+ * or bracketed like "(red)" / "[red]"), or a lexicon stop phrase in out-of-character text (a bracketed aside, an
+ * `OOC:` line or a short line of its own). Quoted dialogue never counts: "Please stop," she giggles.
+ */
+export function detectStopIntent(content: string, safeWords: string[] | null | undefined, lexicon?: CompiledLexicon | null): StopIntent | null {
+    const t = content || "";
+    if (!t.trim()) return null;
+    const words = (safeWords || []).map((w) => w.trim().toLowerCase()).filter(Boolean);
+    if (words.length > 0) {
+        // Quoted lines are the character speaking ("Stop!" in a scene), so dialogue goes before the comparison.
+        const bare = (s: string) => stripQuotedDialogue(s).replace(/“[^”]*”/g, " ").toLowerCase().replace(/^[\s*_"'“”([]+|[\s*_"'“”)\].!?,;:]+$/g, "").replace(/^ooc\s*:?\s*/, "").trim();
+        const standalone = t.split(/\n+/).map(bare).concat(Array.from(t.matchAll(/[([]+([^()[\]]{1,40})[)\]]+/g), (m) => bare(m[1])));
+        const hit = standalone.find((s) => words.includes(s));
+        if (hit) return {kind: "safe_word", trigger: hit};
+    }
+    const lex = lexicon || DEFAULT_LEXICON;
+    for (const span of outOfCharacterSpans(t)) {
+        for (const re of lex.stopIntent) {
+            const m = re.exec(span);
+            if (m) return {kind: "stop_intent", trigger: m[0]};
+        }
+    }
+    return null;
 }
 
+// One change of scene location; `via` is the travel/transition cue that explains it, null when the scene just jumped.
+export type LocationHistoryEntry = {location: string; at: number; from?: string; via?: string | null};
+
+// In-story day counter and part of the day. `regression` is set only on the message that moved the clock backwards.
+export type SceneTimeline = {day: number; daypart?: Daypart; regression?: {from: Daypart; to: Daypart; day: number} | null};
+
+// Who is in the scene. Everyone on the roster starts present; `actedWhileAbsent` is set only on the message in which
+// an absent character acted or spoke.
+export type SceneCast = {present: string[]; absent: string[]; actedWhileAbsent?: string[]};
+
+// One character's physical state: clothes taken off, objects in hand, objects set down and not picked up again,
+// hurt body parts, and whether they are wet or tired.
+export type PhysicalState = {removed: string[]; held: string[]; setDown: string[]; injuries: string[]; wet?: boolean; tired?: boolean};
+
+export type ContinuityBreak = {
+    character: string;
+    kind: "removed_twice" | "worn_while_off" | "set_down_twice" | "injury_used" | "dry_while_wet" | "energetic_while_tired";
+    item?: string;
+};
+
+export type ObjectState = "open" | "closed" | "locked" | "on" | "off";
+
+// One prop: who holds it or where it was put, its open/closed/on/off state, what it holds, and its last mention.
+export type SceneObject = {holder?: string | null; location?: string | null; state?: ObjectState; contents?: string; turn: number; mention: string};
+
+// A description that contradicts the ledger, with the prior mention it conflicts with.
+export type ObjectConflict = {
+    object: string;
+    field: "state" | "contents";
+    was: string;
+    now: string;
+    mention: string;
+    turn: number;
+    prior: {mention: string; turn: number};
+};
+
+export type SceneEnvironment = {[A in EnvironmentAttribute]?: EnvironmentValue<A>};
+
+// An environment description that contradicts the scene with no change narrated ("rain" → "clear").
+export type EnvironmentConflict = {attribute: EnvironmentAttribute; was: EnvironmentValue; now: EnvironmentValue; evidence: string};
+
 export type SceneState = {
+    cast?: SceneCast;
+    // Object ledger keyed by the prop's noun ("door", "cup"); `objectConflicts` is set only on the contradicting message.
+    objects?: Record<string, SceneObject>;
+    objectConflicts?: ObjectConflict[] | null;
+    // Physical-state ledger keyed by character name; `continuity` is set only on the message that contradicted it.
+    physical?: Record<string, PhysicalState>;
+    continuity?: ContinuityBreak[] | null;
     location?: string;
+    locationHistory?: LocationHistoryEntry[];
     timeOfDay?: string;
+    timeline?: SceneTimeline;
+    // Weather, lighting, indoor/outdoor and temperature; `environmentConflicts` is set only on the contradicting message.
+    environment?: SceneEnvironment;
+    environmentConflicts?: EnvironmentConflict[] | null;
     lingeringEmotion?: string;
     unresolvedBeats?: UnresolvedBeat[];
     resolvedBeats?: UnresolvedBeat[];
 };
 
+/**
+ * Travel or transition cue that explains a change of location ("walks to", "arrives", "meanwhile"), or a narrated
+ * time skip ("the next morning"), which also covers a cut to a new place. Recollections don't count.
+ */
+export function detectTravel(content: string, lexicon?: CompiledLexicon | null): string | null {
+    const lex = lexicon || DEFAULT_LEXICON;
+    const present = maskRecollections(content || "", lex).masked;
+    for (const re of lex.travel) {
+        const m = re.exec(present);
+        if (m) return m[0];
+    }
+    return storyTimeAdvance(content, lex) > 0 ? "time skip" : null;
+}
+
+/**
+ * Whether a message narrates falling asleep or waking up (lexicon `scene.sleep`); dialogue and recollections don't count.
+ */
+export function detectSleep(content: string, lexicon?: CompiledLexicon | null): boolean {
+    const lex = lexicon || DEFAULT_LEXICON;
+    const present = stripQuotedDialogue(maskRecollections(content || "", lex).masked);
+    return lex.sleep.some((re) => re.test(present));
+}
+
+/**
+ * Advance the story timeline with one message. Time skips of half a day or more ("the next morning", "days later")
+ * add days; a move back through the day ("midnight" → "afternoon") counts as the next day when a skip, sleep/wake
+ * cue or the late-night → dawn wrap explains it, otherwise it is reported as a `regression`. `hint` carries a skip or
+ * sleep from the user's turn.
+ */
+export function advanceTimeline(
+    prev: SceneTimeline | null | undefined,
+    content: string,
+    lexicon?: CompiledLexicon | null,
+    hint?: TimeHint | null,
+): SceneTimeline {
+    const lex = lexicon || DEFAULT_LEXICON;
+    const present = stripQuotedDialogue(maskRecollections(content || "", lex).masked);
+    const skip = Math.max(storyTimeAdvance(content, lex), hint?.skip || 0);
+    const slept = Boolean(hint?.slept) || detectSleep(content, lex);
+    // The time word that ends last is the current one; on a tie the longer ("three in the morning") wins.
+    let latest: {part: Daypart; end: number; length: number} | null = null;
+    for (const {part, re} of lex.dayparts) {
+        for (const m of present.matchAll(new RegExp(re.source, re.flags.includes("g") ? re.flags : `${re.flags}g`))) {
+            const end = (m.index || 0) + m[0].length;
+            if (!latest || end > latest.end || (end === latest.end && m[0].length > latest.length)) latest = {part, end, length: m[0].length};
+        }
+    }
+    const part = latest?.part;
+    const day = prev && prev.day > 0 ? prev.day : 1;
+    let days = skip >= 720 ? Math.max(1, Math.round(skip / 1440)) : 0;
+    let regression: SceneTimeline["regression"] = null;
+    if (part && prev?.daypart && days === 0 && DAYPARTS.indexOf(part) < DAYPARTS.indexOf(prev.daypart)) {
+        const wraps = prev.daypart === "late_night" && part === "dawn";
+        if (skip > 0 || slept || wraps) days = 1;
+        else regression = {from: prev.daypart, to: part, day};
+    }
+    const daypart = part || (days > 0 ? undefined : prev?.daypart);
+    return {day: day + days, ...(daypart ? {daypart} : {}), regression};
+}
+
+// A roster name matches in full or by its first word ("Mara" for "Mara Quinn").
+function rosterPatterns(roster: string[]): Array<{name: string; re: RegExp}> {
+    return roster.map((name) => {
+        const first = name.split(/\s+/)[0];
+        const forms = [name].concat(first !== name && first.length >= 3 ? [first] : []).map((f) => escapeRegExp(f).replace(/\s+/g, "\\s+"));
+        return {name, re: new RegExp(`(?<![\\p{L}\\p{N}])(?:${forms.join("|")})(?![\\p{L}\\p{N}])`, "gu")};
+    });
+}
+
+// Sentence openers and conjunctions after which a name is the subject ("and Mara leaves", "y Mara sale").
+const SUBJECT_PREFIX = /(?:^|[,:—–-]|\b(?:and|then|but|y|e|pero|luego|et|puis|mais|und|dann|aber|mas|depois))\s*$/i;
+
+/**
+ * Update who is in the scene from entrances and exits (lexicon `scene.entrances`/`scene.exits`) narrated right after
+ * a roster name ("Mara walks in", "Jun hangs up"). Any other narration with an absent character as its subject, or an
+ * absent character's dialogue tag, is listed in `actedWhileAbsent`. A name matches in full or by its first word.
+ */
+export function updateScenePresence(prev: SceneCast | null | undefined, content: string, names: string[], lexicon?: CompiledLexicon | null): SceneCast {
+    const lex = lexicon || DEFAULT_LEXICON;
+    const roster = Array.from(new Set(names.map((n) => String(n || "").trim()).filter((n) => n.length >= 2)));
+    const absent = new Set((prev?.absent || []).filter((n) => roster.includes(n)));
+    const acted: string[] = [];
+    const patterns = rosterPatterns(roster);
+    // Dialogue is dropped so a dialogue tag ("\"Hi,\" Mara says") starts its own clause; recollections never move anyone.
+    const present = stripQuotedDialogue(maskRecollections(content || "", lex).masked);
+    const within = (rest: string, cues: RegExp[]): number => {
+        let best = -1;
+        for (const re of cues) {
+            const m = re.exec(rest);
+            if (m && m.index <= 25 && (best < 0 || m.index < best)) best = m.index;
+        }
+        return best;
+    };
+    for (const sentence of present.split(/[.!?;…\n]+/)) {
+        const hits: Array<{name: string; index: number; end: number}> = [];
+        for (const {name, re} of patterns) {
+            for (const m of sentence.matchAll(re)) hits.push({name, index: m.index || 0, end: (m.index || 0) + m[0].length});
+        }
+        hits.sort((a, b) => a.index - b.index);
+        for (const [i, hit] of hits.entries()) {
+            // The cue has to belong to this name: stop at the next one ("Jun nods and Mara leaves").
+            const rest = sentence.slice(hit.end, Math.min(hit.end + 60, i + 1 < hits.length ? hits[i + 1].index : Infinity));
+            if (!SUBJECT_PREFIX.test(sentence.slice(0, hit.index)) || /^['’]s\b/.test(rest)) continue;
+            const entered = within(rest, lex.entrances);
+            const exited = within(rest, lex.exits);
+            // "walks in, then leaves": the later cue decides.
+            if (entered >= 0 && entered >= exited) absent.delete(hit.name);
+            else if (exited >= 0) absent.add(hit.name);
+            else if (absent.has(hit.name) && !acted.includes(hit.name)) acted.push(hit.name);
+        }
+    }
+    return {
+        present: roster.filter((n) => !absent.has(n)),
+        absent: roster.filter((n) => absent.has(n)),
+        ...(acted.length > 0 ? {actedWhileAbsent: acted} : {}),
+    };
+}
+
+// Roster name the sentence is about: the first one in subject position ("Mara sets...", "..., and Jun sets...").
+function sentenceSubject(sentence: string, patterns: Array<{name: string; re: RegExp}>): string | null {
+    for (const {name, re} of patterns) {
+        const m = new RegExp(re.source, "u").exec(sentence);
+        if (m && SUBJECT_PREFIX.test(sentence.slice(0, m.index))) return name;
+    }
+    return null;
+}
+
+// "hand" and "hands" are the same body part.
+function samePart(a: string, b: string): boolean {
+    return a === b || (Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a)));
+}
+
+/**
+ * Update the physical-state ledger from one message's narration (lexicon `physical` cues; dialogue and recollections
+ * are ignored). Each sentence belongs to the roster name it opens with, otherwise to `speaker`. Taking off clothes
+ * that are already off, wearing them again, setting an object down twice, using an injured body part without
+ * favouring it, being dry while wet or energetic while exhausted are reported as `breaks`. Time skips dry people
+ * off, sleep or a half-day skip rests them, and a half-day skip also resets clothes and held objects.
+ */
+export function updatePhysicalState(
+    prev: Record<string, PhysicalState> | null | undefined,
+    content: string,
+    params: {names?: string[] | null; speaker?: string | null; time?: TimeHint | null},
+    lexicon?: CompiledLexicon | null,
+): {physical: Record<string, PhysicalState>; breaks: ContinuityBreak[]} {
+    const lex = lexicon || DEFAULT_LEXICON;
+    const narrative = stripQuotedDialogue(maskRecollections(content || "", lex).masked);
+    const skip = Math.max(storyTimeAdvance(content, lex), params.time?.skip || 0);
+    const slept = Boolean(params.time?.slept) || lex.sleep.some((re) => re.test(narrative));
+    const physical: Record<string, PhysicalState> = {};
+    for (const [name, state] of Object.entries(prev || {})) {
+        const next: PhysicalState = {
+            removed: skip >= 720 ? [] : [...(state.removed || [])],
+            held: skip >= 720 ? [] : [...(state.held || [])],
+            setDown: skip >= 720 ? [] : [...(state.setDown || [])],
+            injuries: [...(state.injuries || [])],
+        };
+        if (state.wet && skip < 60) next.wet = true;
+        if (state.tired && skip < 720 && !slept) next.tired = true;
+        physical[name] = next;
+    }
+    const breaks: ContinuityBreak[] = [];
+    const patterns = rosterPatterns(Array.from(new Set((params.names || []).map((n) => String(n || "").trim()).filter((n) => n.length >= 2))));
+    const fallback = (params.speaker || "").trim() || "character";
+    const remove = (list: string[], item: string) => list.filter((x) => x !== item);
+    for (const sentence of narrative.split(/[.!?;…\n]+/)) {
+        const events: Array<{kind: PhysicalCue; index: number; item: string}> = [];
+        for (const {kind, re} of lex.physical) {
+            for (const m of sentence.matchAll(new RegExp(re.source, re.flags.includes("g") ? re.flags : `${re.flags}g`))) {
+                events.push({kind, index: m.index || 0, item: (m.slice(1).find(Boolean) || "").toLowerCase()});
+            }
+        }
+        if (events.length === 0) continue;
+        const character = sentenceSubject(sentence, patterns) || fallback;
+        const state = physical[character] || (physical[character] = {removed: [], held: [], setDown: [], injuries: []});
+        const guarded = events.some((e) => e.kind === "guarded");
+        const flag = (kind: ContinuityBreak["kind"], item?: string) => breaks.push({character, kind, ...(item ? {item} : {})});
+        for (const {kind, item} of events.sort((a, b) => a.index - b.index)) {
+            switch (kind) {
+                case "undress":
+                    if (state.removed.includes(item)) flag("removed_twice", item);
+                    else state.removed = state.removed.concat([item]).slice(-8);
+                    break;
+                case "dress": {
+                    // "puts them back on": a cue that names no garment puts back what came off last.
+                    const worn = item || state.removed[state.removed.length - 1];
+                    if (worn) state.removed = remove(state.removed, worn);
+                    break;
+                }
+                case "wearing":
+                    if (!state.removed.includes(item)) break;
+                    flag("worn_while_off", item);
+                    state.removed = remove(state.removed, item);
+                    break;
+                case "pickUp":
+                    state.held = remove(state.held, item).concat([item]).slice(-8);
+                    state.setDown = remove(state.setDown, item);
+                    break;
+                case "putDown":
+                    if (state.setDown.includes(item)) flag("set_down_twice", item);
+                    state.held = remove(state.held, item);
+                    state.setDown = remove(state.setDown, item).concat([item]).slice(-8);
+                    break;
+                case "injure":
+                    if (!state.injuries.some((part) => samePart(part, item))) state.injuries = state.injuries.concat([item]).slice(-8);
+                    break;
+                case "heal":
+                    state.injuries = state.injuries.filter((part) => !samePart(part, item));
+                    break;
+                case "strain": {
+                    const hurt = state.injuries.find((part) => samePart(part, item));
+                    if (hurt && !guarded) flag("injury_used", hurt);
+                    break;
+                }
+                case "wet":
+                    state.wet = true;
+                    break;
+                case "dried":
+                    delete state.wet;
+                    break;
+                case "dry":
+                    if (state.wet) flag("dry_while_wet");
+                    delete state.wet;
+                    break;
+                case "tired":
+                    state.tired = true;
+                    break;
+                case "rested":
+                    delete state.tired;
+                    break;
+                case "energetic":
+                    if (state.tired) flag("energetic_while_tired");
+                    delete state.tired;
+                    break;
+            }
+        }
+    }
+    return {physical, breaks};
+}
+
+const OBJECT_STATE_CUES: Partial<Record<ObjectCue, ObjectState>> = {
+    open: "open",
+    close: "closed",
+    lock: "locked",
+    unlock: "closed",
+    switchOn: "on",
+    switchOff: "off",
+    isOpen: "open",
+    isClosed: "closed",
+    isLocked: "locked",
+    isOn: "on",
+    isOff: "off",
+};
+
+// A closed door described as locked (or the other way round) is not a contradiction.
+function sameObjectState(a: ObjectState, b: ObjectState): boolean {
+    return a === b || (a === "locked" && b === "closed") || (a === "closed" && b === "locked");
+}
+
+const MAX_SCENE_OBJECTS = 30;
+
+/**
+ * Update the object ledger from one message's narration (lexicon `objects` cues, plus `physical` pick-up/put-down
+ * cues for who holds what). Actions change an object's state or contents; descriptions that disagree with the ledger
+ * ("the door swings open" while it is locked, wine in the cup that held coffee) with no action on that object earlier
+ * in the message are reported as `conflicts`. Props belong to the place: a change of location keeps only what someone
+ * is holding, and a half-day skip forgets states and contents.
+ */
+export function updateObjectLedger(
+    prev: Record<string, SceneObject> | null | undefined,
+    content: string,
+    params: {turn?: number; names?: string[] | null; speaker?: string | null; moved?: boolean; time?: TimeHint | null},
+    lexicon?: CompiledLexicon | null,
+): {objects: Record<string, SceneObject>; conflicts: ObjectConflict[]} {
+    const lex = lexicon || DEFAULT_LEXICON;
+    const narrative = stripQuotedDialogue(maskRecollections(content || "", lex).masked);
+    const skip = Math.max(storyTimeAdvance(content, lex), params.time?.skip || 0);
+    const turn = params.turn || 0;
+    const objects: Record<string, SceneObject> = {};
+    for (const [name, entry] of Object.entries(prev || {})) {
+        if (params.moved && !entry.holder) continue;
+        const next: SceneObject = {...entry};
+        if (skip >= 720) {
+            delete next.state;
+            delete next.contents;
+        }
+        objects[name] = next;
+    }
+    const conflicts: ObjectConflict[] = [];
+    const patterns = rosterPatterns(Array.from(new Set((params.names || []).map((n) => String(n || "").trim()).filter((n) => n.length >= 2))));
+    const holderCues = lex.physical.filter((c) => c.kind === "pickUp" || c.kind === "putDown");
+    const touched = new Set<string>();
+    for (const sentence of narrative.split(/[.!?;…\n]+/)) {
+        const events: Array<{kind: ObjectCue | PhysicalCue; index: number; text: string; item: string; contents?: string; place?: string}> = [];
+        for (const {kind, re} of [...lex.objects, ...holderCues]) {
+            for (const m of sentence.matchAll(new RegExp(re.source, re.flags.includes("g") ? re.flags : `${re.flags}g`))) {
+                const role = (prefix: string) => Object.entries(m.groups || {}).find(([k, v]) => k.startsWith(prefix) && v)?.[1]?.toLowerCase();
+                const item = m.groups ? role("item") : m.slice(1).find(Boolean)?.toLowerCase();
+                if (item) events.push({kind, index: m.index || 0, text: m[0], item, contents: role("contents"), place: role("place")});
+            }
+        }
+        if (events.length === 0) continue;
+        const subject = sentenceSubject(sentence, patterns) || (params.speaker || "").trim() || null;
+        for (const event of events.sort((a, b) => a.index - b.index)) {
+            const entry: SceneObject = objects[event.item] || {turn, mention: event.text};
+            const conflict = (field: ObjectConflict["field"], was: string, now: string) => {
+                if (conflicts.some((c) => c.object === event.item && c.field === field)) return;
+                conflicts.push({object: event.item, field, was, now, mention: event.text, turn, prior: {mention: entry.mention, turn: entry.turn}});
+            };
+            const state = OBJECT_STATE_CUES[event.kind as ObjectCue];
+            switch (event.kind) {
+                case "open":
+                    if (entry.state === "locked" && !touched.has(event.item)) conflict("state", "locked", "open");
+                    break;
+                case "isOpen":
+                case "isClosed":
+                case "isLocked":
+                case "isOn":
+                case "isOff":
+                    if (entry.state && state && !touched.has(event.item) && !sameObjectState(entry.state, state)) conflict("state", entry.state, state);
+                    break;
+                case "contains":
+                case "drinkFrom":
+                    if (entry.contents && event.contents && entry.contents !== event.contents && !touched.has(event.item)) {
+                        conflict("contents", entry.contents, event.contents);
+                    }
+                    break;
+            }
+            const next: SceneObject = {...entry, turn, mention: event.text};
+            if (state && !(event.kind === "isClosed" && entry.state === "locked")) next.state = state;
+            if (event.contents) next.contents = event.contents;
+            if (event.kind === "empty") delete next.contents;
+            if (event.kind === "place") next.location = event.place || null;
+            if (event.kind === "place" || event.kind === "putDown") next.holder = null;
+            if (event.kind === "pickUp") {
+                next.holder = subject;
+                next.location = null;
+            }
+            if (!event.kind.startsWith("is") && event.kind !== "contains" && event.kind !== "drinkFrom") touched.add(event.item);
+            objects[event.item] = next;
+        }
+    }
+    const kept = Object.entries(objects).sort((a, b) => b[1].turn - a[1].turn).slice(0, MAX_SCENE_OBJECTS);
+    return {objects: Object.fromEntries(kept), conflicts};
+}
+
+export function describeObjectConflict(c: ObjectConflict): string {
+    return `the ${c.object} was ${c.was} (turn ${c.prior.turn}: "${c.prior.mention}") but now "${c.mention}"`;
+}
+
+/**
+ * Short physical state for the scene line: "jacket off, holding glass, hurt ankle, wet", or null when unremarkable.
+ */
+export function describePhysicalState(state: PhysicalState | null | undefined): string | null {
+    if (!state) return null;
+    const parts = [
+        ...(state.removed || []).map((item) => `${item} off`),
+        ...(state.held || []).map((item) => `holding ${item}`),
+        ...(state.injuries || []).map((part) => `hurt ${part}`),
+        ...(state.wet ? ["wet"] : []),
+        ...(state.tired ? ["tired"] : []),
+    ];
+    return parts.length > 0 ? parts.join(", ") : null;
+}
+
+export function describeContinuityBreak(b: ContinuityBreak): string {
+    switch (b.kind) {
+        case "removed_twice":
+            return `${b.character} takes off the ${b.item} again, but it was already off`;
+        case "worn_while_off":
+            return `${b.character} is wearing the ${b.item} that came off earlier`;
+        case "set_down_twice":
+            return `${b.character} sets down the ${b.item} again without having picked it up`;
+        case "injury_used":
+            return `${b.character} uses the hurt ${b.item} as if it were fine`;
+        case "dry_while_wet":
+            return `${b.character} is suddenly dry with no drying off or time passing`;
+        case "energetic_while_tired":
+            return `${b.character} is suddenly full of energy despite being exhausted`;
+    }
+}
+
+// Neighbouring values that can describe the same scene: rain in a storm, a dim candlelit room, a warm day that is hot.
+const COMPATIBLE_ENVIRONMENT: Array<[EnvironmentValue, EnvironmentValue]> = [
+    ["rain", "storm"],
+    ["dark", "dim"],
+    ["dim", "candlelit"],
+    ["warm", "hot"],
+];
+
+function sameEnvironment(a: EnvironmentValue, b: EnvironmentValue): boolean {
+    return a === b || COMPATIBLE_ENVIRONMENT.some(([x, y]) => (x === a && y === b) || (x === b && y === a));
+}
+
+/**
+ * Update weather, lighting, indoor/outdoor setting and temperature from one message's narration (lexicon
+ * `scene.environment`; the description that ends last wins). Attributes persist until narrated otherwise: rain keeps
+ * falling until it stops. A description that contradicts the current value is a conflict unless the message narrates
+ * the change (`scene.environmentChanges`; travel for the setting). Decay: a change of location clears lighting,
+ * setting and temperature, an hour's skip clears lighting, three hours clear weather and temperature.
+ */
+export function updateEnvironment(
+    prev: SceneEnvironment | null | undefined,
+    content: string,
+    params: {moved?: boolean; travel?: boolean; time?: TimeHint | null},
+    lexicon?: CompiledLexicon | null,
+): {environment: SceneEnvironment; conflicts: EnvironmentConflict[]} {
+    const lex = lexicon || DEFAULT_LEXICON;
+    const present = stripQuotedDialogue(maskRecollections(content || "", lex).masked);
+    const skip = Math.max(storyTimeAdvance(content, lex), params.time?.skip || 0);
+    const environment: Record<string, EnvironmentValue> = {...(prev || {})};
+    if (params.moved || skip >= 60) delete environment.lighting;
+    if (params.moved) delete environment.setting;
+    if (params.moved || skip >= 180) delete environment.temperature;
+    if (skip >= 180) delete environment.weather;
+    const changed = new Set(lex.environmentChanges.filter((c) => c.re.test(present)).map((c) => c.attribute));
+    if (params.travel) changed.add("setting");
+    const latest = new Map<EnvironmentAttribute, {value: EnvironmentValue; end: number; length: number; evidence: string}>();
+    for (const {attribute, value, re} of lex.environment) {
+        for (const m of present.matchAll(new RegExp(re.source, re.flags.includes("g") ? re.flags : `${re.flags}g`))) {
+            const end = (m.index || 0) + m[0].length;
+            const best = latest.get(attribute);
+            if (!best || end > best.end || (end === best.end && m[0].length > best.length)) latest.set(attribute, {value, end, length: m[0].length, evidence: m[0]});
+        }
+    }
+    const conflicts: EnvironmentConflict[] = [];
+    for (const [attribute, {value, evidence}] of latest) {
+        const was = environment[attribute];
+        if (was && !changed.has(attribute) && !sameEnvironment(was, value)) conflicts.push({attribute, was, now: value, evidence});
+        environment[attribute] = value;
+    }
+    return {environment: environment as SceneEnvironment, conflicts};
+}
+
+// "the kitchen" and "kitchen counter" are the same place for history purposes.
+function sameLocation(a: string, b: string): boolean {
+    const norm = (s: string) => s.toLowerCase().replace(/^(?:the|a|an)\s+/, "").replace(/\s+/g, " ").trim();
+    const x = norm(a);
+    const y = norm(b);
+    return x === y || x.includes(y) || y.includes(x);
+}
+
+/**
+ * In-story minutes a message skips ahead, from narrated time skips in the lexicon ("hours later", "the next morning").
+ * Overlapping cues do not add up; the longest one wins. Dialogue and recollections never move the clock.
+ */
+export function storyTimeAdvance(content: string, lexicon?: CompiledLexicon | null): number {
+    const lex = lexicon || DEFAULT_LEXICON;
+    const narrative = stripQuotedDialogue(maskRecollections(content || "", lex).masked);
+    let minutes = 0;
+    for (const skip of lex.timeSkips) {
+        if (skip.minutes > minutes && skip.re.test(narrative)) minutes = skip.minutes;
+    }
+    return minutes;
+}
+
 export function summarizeScene(scene: SceneState | null | undefined): string | null {
     if (!scene) return null;
     const parts: string[] = [];
     if (scene.location) parts.push(`loc: ${scene.location}`);
-    if (scene.timeOfDay) parts.push(`time: ${scene.timeOfDay}`);
+    // A lone character is implied while present; once anyone has left, the summary says who.
+    if (scene.cast && (scene.cast.present.length > 1 || scene.cast.absent.length > 0)) {
+        const away = scene.cast.absent.length > 0 ? ` (away: ${scene.cast.absent.join(', ')})` : '';
+        parts.push(`cast: ${scene.cast.present.join(', ') || 'nobody'}${away}`);
+    }
+    const day = scene.timeline && scene.timeline.day > 0 ? `day ${scene.timeline.day}` : null;
+    if (scene.timeOfDay || day) parts.push(`time: ${[scene.timeOfDay, day].filter(Boolean).join(', ')}`);
+    const physical = Object.entries(scene.physical || {})
+        .map(([name, state]) => [name, describePhysicalState(state)])
+        .filter(([, state]) => state)
+        .map(([name, state]) => `${name} (${state})`);
+    if (physical.length > 0) parts.push(`state: ${physical.join(', ')}`);
+    const env = (Object.keys(ENVIRONMENT_VALUES) as EnvironmentAttribute[]).map((a) => scene.environment?.[a]).filter(Boolean);
+    if (env.length > 0) parts.push(`env: ${env.join(', ')}`);
     if (scene.lingeringEmotion) parts.push(`mood: ${scene.lingeringEmotion}`);
     if (Array.isArray(scene.unresolvedBeats) && scene.unresolvedBeats.length > 0) parts.push(`beats: ${scene.unresolvedBeats.length}`);
     return parts.length > 0 ? parts.join(' · ') : null;
@@ -677,32 +1951,29 @@ function hasResolutionCue(narrative: string): boolean {
     return repair.test(t) || apologyAndForgive;
 }
 
-function extractKeywords(text: string): string[] {
-    const stop = new Set([
-        "the", "a", "an", "and", "or", "but", "so", "to", "of", "in", "on", "at", "for", "with", "by",
-        "is", "are", "was", "were", "be", "been", "being",
-        "i", "you", "he", "she", "they", "we", "it", "him", "her", "them", "us",
-        "his", "her", "their", "your", "my", "our",
-        "this", "that", "these", "those",
-        "as", "from", "into", "over", "under", "between",
-        "still", "just", "really", "very",
-    ]);
+function extractKeywords(text: string, stopwords: string[] = DEFAULT_LEXICON.keywordStopwords): string[] {
+    const stop = new Set(stopwords);
     return (text || "")
         .toLowerCase()
         .replace(/["'“”‘’]/g, "")
-        .split(/[^a-z0-9]+/g)
+        .split(/[^\p{L}\p{N}]+/gu)
         .map((w) => w.trim())
         .filter((w) => w.length >= 3 && !stop.has(w));
 }
 
-function resolveMatchingBeats(beats: UnresolvedBeat[], narrative: string, now: number): {unresolved: UnresolvedBeat[]; resolved: UnresolvedBeat[]} {
+function resolveMatchingBeats(
+    beats: UnresolvedBeat[],
+    narrative: string,
+    now: number,
+    stopwords?: string[],
+): {unresolved: UnresolvedBeat[]; resolved: UnresolvedBeat[]} {
     if (!Array.isArray(beats) || beats.length === 0) return {unresolved: [], resolved: []};
-    const narrativeKeys = new Set(extractKeywords(narrative));
+    const narrativeKeys = new Set(extractKeywords(narrative, stopwords));
     const resolved: UnresolvedBeat[] = [];
     const unresolved: UnresolvedBeat[] = [];
 
     for (const b of beats) {
-        const beatKeys = extractKeywords(b.snippet);
+        const beatKeys = extractKeywords(b.snippet, stopwords);
         const shared = beatKeys.filter((k) => narrativeKeys.has(k));
         const qualifies = shared.length >= 2;
         if (qualifies) resolved.push({...b, lastSeenAt: now});
@@ -719,143 +1990,6 @@ function resolveMatchingBeats(beats: UnresolvedBeat[], narrative: string, now: n
     return {unresolved, resolved};
 }
 
-const DEFAULT_LOCATION_PLACE_HEADS = [
-    "apartment",
-    "attic",
-    "backyard",
-    "balcony",
-    "bar",
-    "basement",
-    "bathroom",
-    "beach",
-    "bed",
-    "bedroom",
-    "booth",
-    "bridge",
-    "bus",
-    "cabin",
-    "cafe",
-    "car",
-    "chapel",
-    "church",
-    "cinema",
-    "clinic",
-    "closet",
-    "coffee shop",
-    "counter",
-    "courtyard",
-    "diner",
-    "dining room",
-    "dock",
-    "door",
-    "doorway",
-    "driveway",
-    "elevator",
-    "entrance",
-    "farm",
-    "field",
-    "fireplace",
-    "forest",
-    "front yard",
-    "gallery",
-    "garage",
-    "garden",
-    "gym",
-    "hall",
-    "hallway",
-    "home",
-    "hospital",
-    "hotel",
-    "house",
-    "inn",
-    "kitchen",
-    "lake",
-    "library",
-    "lobby",
-    "market",
-    "museum",
-    "office",
-    "park",
-    "path",
-    "pier",
-    "place",
-    "platform",
-    "porch",
-    "pub",
-    "restaurant",
-    "restroom",
-    "river",
-    "road",
-    "rooftop",
-    "room",
-    "school",
-    "shore",
-    "shop",
-    "sidewalk",
-    "sofa",
-    "station",
-    "stairs",
-    "stairwell",
-    "store",
-    "street",
-    "studio",
-    "table",
-    "taxi",
-    "temple",
-    "terminal",
-    "theater",
-    "trail",
-    "train",
-    "yard",
-    "window",
-    "woods",
-];
-
-const DEFAULT_LOCATION_STOPWORDS = [
-    "end",
-    "beginning",
-    "middle",
-    "moment",
-    "meantime",
-    "world",
-    "way",
-    "time",
-    "air",
-    "silence",
-    "distance",
-    "space",
-    "warmth",
-    "tension",
-    "shadow",
-    "darkness",
-    "lightness",
-    "morning",
-    "afternoon",
-    "evening",
-    "night",
-    "dark",
-    "light",
-    // Body/face parts (common false positives like "in his eyes")
-    "arms",
-    "hands",
-    "lap",
-    "eyes",
-    "gaze",
-    "voice",
-    "breath",
-    "chest",
-    "heart",
-    "mind",
-    "head",
-    "face",
-    "lips",
-    "mouth",
-    "throat",
-    "skin",
-    "hair",
-    "cheeks",
-];
-
 function compileAlternationPattern(terms: string[]): string | null {
     const cleaned = Array.from(new Set((terms || []).map((t) => String(t || "").trim()).filter(Boolean))).slice(0, 250);
     if (cleaned.length === 0) return null;
@@ -873,18 +2007,25 @@ export function updateSceneFromMessage(
     const t = content;
     const narrative = stripQuotedDialogue(t);
 
-    const placeHeads = new Set<string>(DEFAULT_LOCATION_PLACE_HEADS);
+    const lexicon = tuning?.lexicon || DEFAULT_LEXICON;
+    // Location and time of day come from the present only: "she remembers the beach" does not move the scene.
+    const present = maskRecollections(narrative, lexicon).masked;
+    const placeHeads = new Set<string>(lexicon.placeHeads);
     for (const p of (tuning?.locationPlaceHeads || [])) {
         const s = String(p || "").toLowerCase().replace(/\s+/g, " ").trim();
         if (s) placeHeads.add(s);
     }
-    const stopwords = new Set<string>(DEFAULT_LOCATION_STOPWORDS);
+    const stopwords = new Set<string>(lexicon.stopwords);
     for (const w of (tuning?.locationStopwords || [])) {
         const s = String(w || "").toLowerCase().replace(/\s+/g, " ").trim();
         if (s) stopwords.add(s);
     }
 
-    const preps = "(?:at|in|inside|into|on|by|near|beside|behind|under|over|outside|within|across|around|through)";
+    const preps = `(?:${compileAlternationPattern(lexicon.prepositions) || "at|in|on"})`;
+    // Elided determiners ("l'", "d'") attach directly to the noun; others need whitespace.
+    const determiners = `(?:${lexicon.determiners.map((d) => /['’]$/.test(d) ? escapeRegExp(d) : `${escapeRegExp(d)}\\s+`).join("|") || "the\\s+"})`;
+    const wordChars = lexicon.unicode ? "\\p{L}\\p{N}" : "A-Za-z0-9";
+    const sceneRegex = (source: string) => compileWordRegex(source, "ig", lexicon.unicode);
     const candidates: string[] = [];
     const addCandidate = (c: string) => {
         const s = String(c || "").trim();
@@ -900,21 +2041,21 @@ export function updateSceneFromMessage(
         return c;
     };
 
-    const articleLocRe = new RegExp(`\\b${preps}\\s+(?:the|a|an|my|your|his|her|their)\\s+([A-Za-z0-9'’\\- ]{2,60})\\b`, "ig");
-    for (const m of narrative.matchAll(articleLocRe)) {
+    const articleLocRe = sceneRegex(`\\b${preps}\\s+${determiners}([${wordChars}'’\\- ]{2,60})\\b`);
+    for (const m of present.matchAll(articleLocRe)) {
         addCandidate(trimVerbish(m[1] || ""));
     }
 
     const possessiveLocRe = new RegExp(`\\b(?:at|in|inside|into|on|by)\\s+([A-Za-z][A-Za-z'’\\-]+(?:'s|’s)\\s+[A-Za-z0-9'’\\- ]{2,60})\\b`, "ig");
-    for (const m of narrative.matchAll(possessiveLocRe)) {
+    for (const m of present.matchAll(possessiveLocRe)) {
         addCandidate(trimVerbish(m[1] || ""));
     }
 
     // Safe no-article matching for known place heads (including user-tuned ones).
     const placePattern = compileAlternationPattern(Array.from(placeHeads));
     if (placePattern) {
-        const exactPlaceRe = new RegExp(`\\b${preps}\\s+(?:the\\s+|a\\s+|an\\s+)?(${placePattern})\\b`, "ig");
-        for (const m of narrative.matchAll(exactPlaceRe)) {
+        const exactPlaceRe = sceneRegex(`\\b${preps}\\s+${determiners}?(${placePattern})\\b`);
+        for (const m of present.matchAll(exactPlaceRe)) {
             addCandidate(m[1] || "");
         }
     }
@@ -948,12 +2089,46 @@ export function updateSceneFromMessage(
 
     // Explicit home/place phrases without articles.
     if (!scene.location) {
-        const home = /\b(at home|at (?:his|her|their|my|your) place)\b/i.exec(narrative);
+        const home = /\b(at home|at (?:his|her|their|my|your) place)\b/i.exec(present);
         if (home) scene.location = home[1].toLowerCase();
     }
 
-    const tod = /\b(early morning|this morning|morning|afternoon|evening|late night|last night|night|noon|midnight|dawn|dusk|tonight)\b/i.exec(narrative);
-    if (tod) scene.timeOfDay = tod[1].toLowerCase().replace(/\s+/g, " ");
+    // Location history: every move records what explained it (a travel cue or time skip), so jumps can be flagged.
+    const from = prev?.location;
+    if (scene.location && (!from || !sameLocation(from, scene.location))) {
+        const entry: LocationHistoryEntry = {location: scene.location, at: now};
+        if (from) {
+            entry.from = from;
+            entry.via = tuning?.travelHint || detectTravel(t, lexicon);
+        }
+        scene.locationHistory = (Array.isArray(scene.locationHistory) ? scene.locationHistory : []).concat([entry]).slice(-20);
+    }
+
+    for (const re of lexicon.timesOfDay) {
+        const tod = re.exec(present);
+        if (!tod) continue;
+        scene.timeOfDay = tod[0].toLowerCase().replace(/\s+/g, " ");
+        break;
+    }
+    const time = tuning?.timeHint || null;
+    scene.timeline = advanceTimeline(prev?.timeline, t, lexicon, time);
+    if (Array.isArray(tuning?.cast) && tuning.cast.length > 0) scene.cast = updateScenePresence(prev?.cast, t, tuning.cast, lexicon);
+    const ledger = updatePhysicalState(prev?.physical, t, {names: tuning?.cast, speaker: tuning?.speaker, time}, lexicon);
+    scene.physical = ledger.physical;
+    scene.continuity = ledger.breaks.length > 0 ? ledger.breaks : null;
+    const moved = Boolean(from && scene.location && !sameLocation(from, scene.location));
+    const props = updateObjectLedger(prev?.objects, t, {
+        turn: tuning?.turn,
+        names: tuning?.cast,
+        speaker: tuning?.speaker,
+        moved,
+        time,
+    }, lexicon);
+    scene.objects = props.objects;
+    scene.objectConflicts = props.conflicts.length > 0 ? props.conflicts : null;
+    const surroundings = updateEnvironment(prev?.environment, t, {moved, travel: Boolean(tuning?.travelHint || detectTravel(t, lexicon)), time}, lexicon);
+    scene.environment = surroundings.environment;
+    scene.environmentConflicts = surroundings.conflicts.length > 0 ? surroundings.conflicts : null;
 
     if (snapshot && snapshot.tone && snapshot.tone !== 'neutral') scene.lingeringEmotion = snapshot.tone;
 
@@ -961,7 +2136,7 @@ export function updateSceneFromMessage(
     scene.resolvedBeats = coerceBeats(scene.resolvedBeats, now);
 
     if (hasResolutionCue(narrative)) {
-        const resolved = resolveMatchingBeats(scene.unresolvedBeats || [], narrative, now);
+        const resolved = resolveMatchingBeats(scene.unresolvedBeats || [], narrative, now, lexicon.keywordStopwords);
         scene.unresolvedBeats = resolved.unresolved;
         scene.resolvedBeats = (scene.resolvedBeats || []).concat(resolved.resolved).slice(-20);
     } else {
@@ -989,6 +2164,8 @@ export function scoreUnresolvedBeatReminder(params: {
     snapshot: EmotionSnapshot;
     priorEmotions?: EmotionSnapshot[];
     memoryScars?: MemoryScar[];
+    axes?: RelationshipAxes | null;
+    lexicon?: CompiledLexicon | null;
 }): {note: string | null; score: number; reasons: WeightedHit[]; beatId: string | null} {
     const scene = params.scene;
     const beats = scene && Array.isArray(scene.unresolvedBeats) ? scene.unresolvedBeats : [];
@@ -1004,7 +2181,8 @@ export function scoreUnresolvedBeatReminder(params: {
 
     const reasons: WeightedHit[] = [];
 
-    const timeSkip = /\b(later|the next day|next morning|hours later|days later|weeks later|afterward|after that)\b/i.test(narrative);
+    const timeSkip = /\b(later|the next day|next morning|hours later|days later|weeks later|afterward|after that)\b/i.test(narrative)
+        || storyTimeAdvance(t, params.lexicon) > 0;
     if (timeSkip) pushWeighted(reasons, "time_skip", 3);
 
     const comfortOrEscalation =
@@ -1029,6 +2207,12 @@ export function scoreUnresolvedBeatReminder(params: {
         pushWeighted(reasons, `recent_scar_${lastScar}`, 1);
     }
 
+    // Softening or escalating over a beat matters more while the pair is wound up or wary.
+    if (params.axes && (comfortOrEscalation || intimate)) {
+        if (params.axes.tension >= 60) pushWeighted(reasons, "high_tension", 1);
+        if (params.axes.trust < 30) pushWeighted(reasons, "low_trust", 1);
+    }
+
     const score = sumWeights(reasons);
     if (score <= 0) return {note: null, score, reasons, beatId};
 
@@ -0,0 +1,149 @@
+/**
+ * User-declared boundaries: hard and soft limits on story topics ("no kissing before Charged", "no jealousy plots").
+ * They come from the `boundaries` config or `((realism: limit ...))` commands. Topics are matched with the lexicon's
+ * `boundaryTopics` cues (plus the boundary's own `terms`); a limit can lift once a phase or proximity is reached.
+ */
+
+import type {Proximity} from "./analysis_helpers";
+import type {RelationshipLadder} from "./ladders";
+
+export type BoundaryLevel = "hard" | "soft";
+
+export type Boundary = {
+    topic: string;
+    // Hard limits raise critical notes; soft limits are ordinary, quota-bound notes.
+    level: BoundaryLevel;
+    // Extra words/phrases for the topic. Topics the lexicon doesn't know fall back to their own name.
+    terms?: string[];
+    // The limit holds while the phase is below this rung and/or proximity below this level; ungated limits always hold.
+    untilPhase?: string;
+    untilProximity?: Proximity;
+};
+
+export const MAX_BOUNDARIES = 12;
+
+// Topics the built-in lexicon packs define under `boundaryTopics`.
+export const BOUNDARY_TOPICS = ["kissing", "touching", "sexual_content", "jealousy", "infidelity", "violence", "love_confession"] as const;
+
+const PROXIMITY_LEVELS: Proximity[] = ["Distant", "Nearby", "Touching", "Intimate"];
+
+// Everyday names for the lexicon topics, so "no kisses" or "cheating" find `kissing`/`infidelity`.
+const TOPIC_ALIASES: Record<string, string> = {
+    kiss: "kissing",
+    kisses: "kissing",
+    touch: "touching",
+    hugs: "touching",
+    hugging: "touching",
+    sex: "sexual_content",
+    sexual: "sexual_content",
+    nsfw: "sexual_content",
+    nudity: "sexual_content",
+    jealous: "jealousy",
+    cheating: "infidelity",
+    affair: "infidelity",
+    affairs: "infidelity",
+    fighting: "violence",
+    gore: "violence",
+    confession: "love_confession",
+    confessions: "love_confession",
+    i_love_you: "love_confession",
+};
+
+/**
+ * Canonical topic key: lowercased, `_`-joined, a leading "no" dropped, aliases resolved. A phrase whose first word
+ * names a known topic ("jealousy plots") maps to that topic; anything else keeps its own key.
+ */
+export function normalizeBoundaryTopic(raw: string): string {
+    const words = (raw || "").toLowerCase().replace(/[^\p{L}\p{N}\s_'-]/gu, " ").split(/[\s_-]+/).filter(Boolean);
+    if (words[0] === "no") words.shift();
+    const known = (key: string) => ((BOUNDARY_TOPICS as readonly string[]).includes(key) ? key : TOPIC_ALIASES[key] || null);
+    const whole = words.join("_");
+    return known(whole) || (words.length > 1 && known(words[0])) || whole;
+}
+
+/**
+ * Validate one boundary: a `topic` is required, `level` defaults to "hard", `untilProximity` must be a proximity level.
+ * `untilPhase` is checked against the active ladder when the boundary is evaluated.
+ */
+export function normalizeBoundary(raw: unknown, where: string, errors: string[]): Boundary | null {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+        errors.push(`${where}: must be an object.`);
+        return null;
+    }
+    const src = raw as Record<string, unknown>;
+    const topic = typeof src.topic === "string" ? normalizeBoundaryTopic(src.topic) : "";
+    if (!topic) {
+        errors.push(`${where}: needs a \`topic\`.`);
+        return null;
+    }
+    if (src.level != null && src.level !== "hard" && src.level !== "soft") errors.push(`${topic}: \`level\` must be "hard" or "soft"; using "hard".`);
+    const out: Boundary = {topic, level: src.level === "soft" ? "soft" : "hard"};
+    if (Array.isArray(src.terms)) {
+        const terms = src.terms.filter((t): t is string => typeof t === "string").map((t) => t.trim()).filter(Boolean).slice(0, 20);
+        if (terms.length > 0) out.terms = terms;
+    }
+    if (typeof src.untilPhase === "string" && src.untilPhase.trim()) out.untilPhase = src.untilPhase.trim();
+    if (src.untilProximity != null) {
+        const level = boundaryProximity(String(src.untilProximity));
+        if (level) out.untilProximity = level;
+        else errors.push(`${topic}: \`untilProximity\` must be one of ${PROXIMITY_LEVELS.join(", ")}.`);
+    }
+    return out;
+}
+
+/**
+ * Validate a boundary list; a later boundary on the same topic replaces an earlier one.
+ */
+export function normalizeBoundaries(raw: unknown[] | null | undefined): {boundaries: Boundary[]; errors: string[]} {
+    const errors: string[] = [];
+    const byTopic = new Map<string, Boundary>();
+    for (const [i, entry] of (Array.isArray(raw) ? raw : []).entries()) {
+        const boundary = normalizeBoundary(entry, `boundary #${i}`, errors);
+        if (!boundary) continue;
+        byTopic.delete(boundary.topic);
+        byTopic.set(boundary.topic, boundary);
+    }
+    const boundaries = Array.from(byTopic.values());
+    if (boundaries.length > MAX_BOUNDARIES) errors.push(`only the last ${MAX_BOUNDARIES} boundaries are kept.`);
+    return {boundaries: boundaries.slice(-MAX_BOUNDARIES), errors};
+}
+
+/**
+ * Proximity level named `raw` (case-insensitive), or null.
+ */
+export function boundaryProximity(raw: string): Proximity | null {
+    return PROXIMITY_LEVELS.find((p) => p.toLowerCase() === (raw || "").trim().toLowerCase()) || null;
+}
+
+/**
+ * Whether a boundary holds at this phase/proximity. A gate naming a rung the ladder lacks never lifts.
+ */
+export function isBoundaryActive(boundary: Boundary, params: {phase: string; proximity: Proximity; ladder: RelationshipLadder}): boolean {
+    const gates: boolean[] = [];
+    if (boundary.untilPhase) {
+        const phases = params.ladder.phases.map((p) => p.toLowerCase());
+        const until = phases.indexOf(boundary.untilPhase.toLowerCase());
+        gates.push(until < 0 || phases.indexOf((params.phase || "").toLowerCase()) < until);
+    }
+    if (boundary.untilProximity) {
+        gates.push(PROXIMITY_LEVELS.indexOf(params.proximity) < PROXIMITY_LEVELS.indexOf(boundary.untilProximity));
+    }
+    return gates.length === 0 || gates.some(Boolean);
+}
+
+export function describeBoundary(boundary: Boundary): string {
+    const gates = [boundary.untilPhase, boundary.untilProximity ? `proximity ${boundary.untilProximity}` : null].filter(Boolean);
+    return `no ${boundary.topic.replace(/_/g, " ")}${gates.length > 0 ? ` before ${gates.join(" and ")}` : ""}`;
+}
+
+/**
+ * One-line summary for the injected notes block: "hard limits: no kissing before Charged; soft limits: no jealousy".
+ */
+export function formatBoundarySummary(boundaries: Boundary[]): string | null {
+    const parts: string[] = [];
+    for (const level of ["hard", "soft"] as const) {
+        const list = boundaries.filter((b) => b.level === level).map(describeBoundary);
+        if (list.length > 0) parts.push(`${level} limits: ${list.join(", ")}`);
+    }
+    return parts.length > 0 ? parts.join("; ") : null;
+}
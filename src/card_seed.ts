@@ -0,0 +1,166 @@
+/**
+ * Opening state from the character card. The `scenario` and `first_message` seed the scene (location, time of day,
+ * surroundings, cast), and relationship history the card states about the user ("{{char}} and {{user}} are
+ * ex-lovers") seeds the phase, proximity and memory scars, so turn 1 does not start from a blank Neutral/Distant.
+ */
+
+import {
+    type MemoryScar,
+    type Proximity,
+    type SceneState,
+    extractEmotionSnapshot,
+    updateSceneFromMessage,
+} from "./analysis_helpers";
+import type {CorePhase} from "./ladders";
+import {type CompiledLexicon, DEFAULT_LEXICON, escapeRegExp} from "./lexicon";
+
+// The card fields the seed reads (a subset of the host's character record).
+export type CardText = {
+    name?: string | null;
+    description?: string | null;
+    scenario?: string | null;
+    first_message?: string | null;
+};
+
+export type CardHistory = {
+    kind: string;
+    phase: CorePhase;
+    proximity: Proximity | null;
+    scar: MemoryScar | null;
+    // The card sentence the history was read from.
+    evidence: string;
+};
+
+export type CardSeed = {
+    // Null when neither the scenario nor the first message says anything about the scene.
+    scene: SceneState | null;
+    history: CardHistory | null;
+};
+
+// Stand-ins for the user and the character while card history is matched.
+const USER_MARK = "{{user}}";
+const CHAR_MARK = "{{char}}";
+
+/**
+ * Card text with `{{char}}` replaced by `charName` and `{{user}}` by `user` (the user's name, or "you" when the scene
+ * text should read as second person); by default `{{user}}` stays a mark for history matching.
+ */
+export function expandCardMacros(text: string | null | undefined, charName: string, user: string = USER_MARK): string {
+    return (text || "")
+        .replace(/\{\{\s*char\s*\}\}|<BOT>/gi, charName || "they")
+        .replace(/\{\{\s*user\s*\}\}|<USER>/gi, user);
+}
+
+// Words of a sentence with surrounding punctuation trimmed ("Mara's" keeps its apostrophe).
+function words(text: string): string[] {
+    return text.split(/\s+/).map((w) => w.replace(/^[^\p{L}\p{N}{]+|[^\p{L}\p{N}}'’]+$/gu, "")).filter(Boolean);
+}
+
+// Whether `word` is one of the cue set's words in full ("you", not "your").
+function isCueWord(word: string, cues: RegExp[]): boolean {
+    return cues.some((re) => {
+        const m = re.exec(word);
+        return Boolean(m && m.index === 0 && m[0].length === word.length);
+    });
+}
+
+/**
+ * Whether the relationship cue `match` (at `index` in `sentence`) ties the character to the user: the two joined by
+ * a `pair` word before it ("Mara and you are ex-lovers"), a user possessive right before it ("your ex-wife"), a
+ * character possessive in a sentence about the user ("You are Mara's ex-boyfriend"), or the user as its object
+ * ("cheated on you", "broke up with you"). At most one word may sit between the possessive and the cue; "her friend's boyfriend" is
+ * someone else's relationship.
+ */
+function linksCharacterAndUser(sentence: string, index: number, match: string, lex: CompiledLexicon): boolean {
+    const after = sentence.slice(index + match.length);
+    if (/^['’]s\b/.test(after)) return false;
+    const links = lex.historyLinks;
+    const isUser = (w: string) => w === USER_MARK || isCueWord(w, links.user);
+    const isChar = (w: string) => w === CHAR_MARK;
+    const before = words(sentence.slice(0, index));
+
+    for (let i = 0; i + 2 < before.length; i++) {
+        const [a, and, b] = before.slice(i, i + 3);
+        if (isCueWord(and, links.pair) && ((isChar(a) && isUser(b)) || (isUser(a) && isChar(b)))) return true;
+    }
+    const last = before.slice(-2).reverse();
+    const possessive = (test: (w: string) => boolean) => test(last[0] || "") || (Boolean(last[1]) && test(last[1]) && !/['’]s$/.test(last[0]));
+    if (possessive((w) => isCueWord(w, links.userPossessive))) return true;
+    const charPossessive = (w: string) => isCueWord(w, links.charPossessive) || w === `${CHAR_MARK}'s` || w === `${CHAR_MARK}’s`;
+    if (before.some(isUser) && possessive(charPossessive)) return true;
+    if (match.includes(USER_MARK) || links.user.some((re) => re.test(match))) return true;
+    const next = words(after);
+    const object = next[0] && isCueWord(next[0], links.preposition) ? next[1] : next[0];
+    return Boolean(object && isUser(object));
+}
+
+/**
+ * Relationship history stated in the card: the first lexicon `history` kind (in pack order) that the card ties to
+ * the user (see `linksCharacterAndUser`). "Mara, a married woman, invites you in" says nothing about the user.
+ */
+export function detectCardHistory(
+    card: CardText | null | undefined,
+    params?: {userName?: string | null; lexicon?: CompiledLexicon | null; now?: number},
+): CardHistory | null {
+    if (!card) return null;
+    const lex = params?.lexicon || DEFAULT_LEXICON;
+    const name = (card.name || "").trim();
+    const userName = (params?.userName || "").trim();
+    const nameForms = [name].concat(name.split(/\s+/)[0].length >= 3 ? [name.split(/\s+/)[0]] : []).filter(Boolean);
+    const mark = (text: string, forms: string[], to: string) => forms.length === 0 ? text
+        : text.replace(new RegExp(`(?<![\\p{L}\\p{N}])(?:${forms.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`, "gu"), to);
+    const text = [card.scenario, card.description, card.first_message]
+        .map((field) => mark(mark(expandCardMacros(field, CHAR_MARK), nameForms, CHAR_MARK), userName ? [userName] : [], USER_MARK))
+        .join("\n");
+    const sentences = text.split(/(?<=[.!?])\s+|\n+/).map((s) => s.trim()).filter(Boolean);
+
+    for (const entry of lex.history) {
+        for (const sentence of sentences) {
+            const re = new RegExp(entry.re.source, entry.re.flags.includes("g") ? entry.re.flags : `${entry.re.flags}g`);
+            const linked = Array.from(sentence.matchAll(re)).some((m) => linksCharacterAndUser(sentence, m.index || 0, m[0], lex));
+            if (!linked) continue;
+            const evidence = sentence.split(CHAR_MARK).join(name || "they").split(USER_MARK).join(userName || "you").slice(0, 200);
+            return {
+                kind: entry.kind,
+                phase: entry.phase,
+                proximity: entry.proximity,
+                scar: entry.scar ? {event: entry.scar, text: evidence, at: params?.now ?? Date.now()} : null,
+                evidence,
+            };
+        }
+    }
+    return null;
+}
+
+/**
+ * Seed the opening scene and relationship history from a character card. The scene reads the scenario first and the
+ * first message over it, as if the greeting were the chat's first reply; beats and per-message conflicts are dropped.
+ */
+export function seedFromCard(
+    card: CardText | null | undefined,
+    params?: {userName?: string | null; lexicon?: CompiledLexicon | null; cast?: string[] | null; now?: number},
+): CardSeed {
+    if (!card) return {scene: null, history: null};
+    const lexicon = params?.lexicon || DEFAULT_LEXICON;
+    const name = card.name || "";
+    const user = params?.userName || "you";
+    let scene: SceneState | null = null;
+    for (const field of [card.scenario, card.first_message]) {
+        const content = expandCardMacros(field, name, user).trim();
+        if (!content) continue;
+        scene = updateSceneFromMessage(scene, content, extractEmotionSnapshot(content, {lexicon}), {
+            lexicon,
+            cast: params?.cast || null,
+            speaker: name || null,
+            turn: 0,
+        });
+    }
+    if (scene) {
+        const {unresolvedBeats: _beats, resolvedBeats: _resolved, continuity: _continuity, objectConflicts: _objects, environmentConflicts: _environment, ...kept} = scene;
+        // Every update fills in a day-1 timeline and empty ledgers; only a scene the card actually describes is kept.
+        const described = Boolean(kept.location || kept.timeOfDay || kept.timeline?.daypart || kept.cast?.absent.length)
+            || [kept.environment, kept.objects, kept.physical].some((part) => Object.keys(part || {}).length > 0);
+        scene = described ? kept : null;
+    }
+    return {scene, history: detectCardHistory(card, params)};
+}
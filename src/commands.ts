@@ -0,0 +1,143 @@
+/**
+ * Out-of-character command channel: `((realism: ...))` blocks in the user's message steer the stage mid-chat
+ * (pause/resume, set the phase, resolve a beat, change strictness, mute a detector, declare a limit). Overrides live in message
+ * state, so they follow the branch through `setState`; the command text itself never reaches the detectors.
+ */
+
+import {type Boundary, type BoundaryLevel, normalizeBoundaryTopic} from "./boundaries";
+import type {NormalizedConfig} from "./config_schema";
+
+// Detector names accepted by `mute`/`unmute`, mapped to their `note_*` toggle.
+export const MUTABLE_DETECTORS = {
+    scene: "note_scene_summary",
+    emotion: "note_emotion_delta",
+    phase: "note_phase",
+    proximity: "note_proximity",
+    consent: "note_consent",
+    subtext: "note_subtext",
+    silence: "note_silence",
+    drift: "note_drift",
+    scars: "note_scar_recall",
+    beats: "note_unresolved_beats",
+    pacing: "note_pacing",
+    teleport: "note_teleport",
+    timeline: "note_timeline",
+    presence: "note_presence",
+    continuity: "note_continuity",
+    objects: "note_objects",
+    environment: "note_environment",
+} as const satisfies Record<string, keyof NormalizedConfig>;
+export type MutableDetector = keyof typeof MUTABLE_DETECTORS;
+
+const DETECTOR_ALIASES: Record<string, MutableDetector> = {
+    scene_summary: "scene",
+    emotion_delta: "emotion",
+    whiplash: "emotion",
+    scar: "scars",
+    scar_recall: "scars",
+    beat: "beats",
+    unresolved_beats: "beats",
+};
+
+export type RealismCommand =
+    | {kind: "pause"}
+    | {kind: "resume"}
+    | {kind: "phase"; phase: string}
+    | {kind: "resolve_beat"; all: boolean}
+    | {kind: "strictness"; level: number}
+    | {kind: "mute" | "unmute"; detector: MutableDetector}
+    // `before` is a ladder rung or proximity level, resolved against the active ladder when applied.
+    | {kind: "limit"; level: BoundaryLevel; topic: string; before?: string}
+    | {kind: "unlimit"; topic: string | null};
+
+export type CommandOverrides = {
+    paused?: boolean;
+    strictness?: number | null;
+    muted?: MutableDetector[];
+    // Replaces the configured `boundaries` once any limit command has been used.
+    boundaries?: Boundary[];
+};
+
+const COMMAND_BLOCK = /\(\(\s*realism\s*:([^)]*)\)\)/gi;
+
+function resolveDetector(raw: string): MutableDetector | null {
+    const key = raw.trim().toLowerCase().replace(/^note_/, "").replace(/[\s-]+/g, "_");
+    if (key in MUTABLE_DETECTORS) return key as MutableDetector;
+    return DETECTOR_ALIASES[key] || null;
+}
+
+function parseCommand(raw: string): RealismCommand | null {
+    const text = raw.trim().replace(/\s+/g, " ");
+    const [verb, ...rest] = text.split(" ");
+    const arg = rest.join(" ").trim();
+    switch (verb.toLowerCase()) {
+        case "pause":
+            return arg ? null : {kind: "pause"};
+        case "resume":
+            return arg ? null : {kind: "resume"};
+        case "phase":
+            return arg ? {kind: "phase", phase: arg} : null;
+        case "resolve": {
+            const all = /^(?:all )?beats$/i.test(arg) || /^all beats?$/i.test(arg);
+            return all || /^beat$/i.test(arg) ? {kind: "resolve_beat", all} : null;
+        }
+        case "strictness": {
+            const level = Number(arg);
+            return Number.isInteger(level) && level >= 1 && level <= 3 ? {kind: "strictness", level} : null;
+        }
+        case "mute":
+        case "unmute": {
+            const detector = resolveDetector(arg);
+            return detector ? {kind: verb.toLowerCase() as "mute" | "unmute", detector} : null;
+        }
+        case "limit": {
+            // limit <hard|soft> [no] <topic> [before [phase|proximity] <rung>]
+            const m = /^(hard|soft) (.+?)(?: before (?:phase |proximity )?(\S+))?$/i.exec(arg);
+            const topic = m ? normalizeBoundaryTopic(m[2]) : "";
+            if (!m || !topic) return null;
+            return {kind: "limit", level: m[1].toLowerCase() as BoundaryLevel, topic, ...(m[3] ? {before: m[3]} : {})};
+        }
+        case "unlimit": {
+            if (/^all$/i.test(arg)) return {kind: "unlimit", topic: null};
+            const topic = normalizeBoundaryTopic(arg);
+            return topic ? {kind: "unlimit", topic} : null;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Pull every `((realism: ...))` block out of `content`. A block may hold several commands separated by `;`.
+ * `stripped` is the message with the blocks removed; unrecognized commands are reported, not guessed at.
+ */
+export function parseRealismCommands(content: string): {commands: RealismCommand[]; errors: string[]; stripped: string} {
+    const commands: RealismCommand[] = [];
+    const errors: string[] = [];
+    const text = content || "";
+    if (!/\(\(\s*realism\s*:/i.test(text)) return {commands, errors, stripped: text};
+    const stripped = text.replace(COMMAND_BLOCK, (_m, body: string) => {
+        for (const part of body.split(";").map((p) => p.trim()).filter(Boolean)) {
+            const command = parseCommand(part);
+            if (command) commands.push(command);
+            else errors.push(`unknown realism command "${part}"`);
+        }
+        return " ";
+    });
+    return {commands, errors, stripped: stripped.replace(/[ \t]{2,}/g, " ").replace(/ *\n */g, "\n").trim()};
+}
+
+/**
+ * Config with the in-chat overrides applied: strictness and boundaries replaced, muted detectors switched off.
+ */
+export function applyCommandOverrides(config: NormalizedConfig, overrides: CommandOverrides | null | undefined): NormalizedConfig {
+    if (!overrides) return config;
+    const out: NormalizedConfig = {...config};
+    if (typeof overrides.strictness === "number") out.strictness = overrides.strictness;
+    if (Array.isArray(overrides.boundaries)) out.boundaries = overrides.boundaries;
+    for (const detector of overrides.muted || []) {
+        const key = MUTABLE_DETECTORS[detector];
+        if (key) out[key] = false;
+    }
+    return out;
+}
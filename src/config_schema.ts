@@ -3,6 +3,9 @@
  * Ensures null-safety, default fallbacks, and range clamping for numeric fields.
  */
 
+import {LEXICON_LANGUAGES, isLexiconLanguage, type LexiconLanguage} from "./lexicon";
+import {CONTENT_RATINGS, parseContentRating, type ContentRating} from "./ratings";
+
 export type ConfigSchema = {
     // Core
     enabled?: boolean;
@@ -47,6 +50,13 @@ export type ConfigSchema = {
     note_silence?: boolean | number;
     note_drift?: boolean | number;
     note_scar_recall?: boolean | number;
+    note_pacing?: boolean | number; // "phase_rushed" when a phase is reached before the ladder's dwell budget
+    note_teleport?: boolean | number; // "scene_teleport" when the location changes with no travel or transition
+    note_timeline?: boolean | number; // "timeline_regression" when the time of day runs backwards with no sleep or skip
+    note_presence?: boolean | number; // "absent_character" when a character who left the scene acts or speaks
+    note_continuity?: boolean | number; // "continuity" when clothing, held objects, injuries or wet/tired states contradict earlier narration
+    note_objects?: boolean | number; // "object_continuity" when a prop's open/closed/on/off state or contents contradict an earlier mention
+    note_environment?: boolean | number; // "environment_continuity" when weather, lighting, setting or temperature change with no narration
 
     // Tuning overrides (null/undefined uses strictness defaults)
     tune_phase_weight_threshold?: number; // null/undefined -> strictness defaults, otherwise 1..20
@@ -61,6 +71,31 @@ export type ConfigSchema = {
     tune_scene_location_place_heads?: string[];
     tune_scene_location_stopwords?: string[];
 
+    // Lexicon language: 'auto' detects per message (keeping the last confident guess), otherwise a fixed pack.
+    language?: 'auto' | LexiconLanguage;
+
+    // Declarative lexicon packs (see `src/lexicon.ts`) merged on top of the built-in English pack,
+    // e.g. a fantasy pack adding "tavern"/"keep" place heads or an office pack adding tone terms.
+    lexicon_packs?: unknown[];
+
+    // Relationship ladder (see `src/ladders.ts`): 'slow_burn' (default), 'enemies_to_lovers', 'friends_to_lovers',
+    // or the `id` of a user-defined ladder in `relationship_ladders`
+    // ({id, name?, phases, signalPhases?, corePhases?, skipWarning?}).
+    relationship_ladder?: string;
+    relationship_ladders?: unknown[];
+
+    // Safe words the user can send on their own (a whole message, its own line, or bracketed like "(red)")
+    // to stop the scene; stop phrases ("I'm not comfortable with this") are detected from the lexicon.
+    safe_words?: string[];
+
+    // User-declared limits checked on every bot reply (see `src/boundaries.ts`):
+    // {topic, level?: 'hard' | 'soft', terms?, untilPhase?, untilProximity?}, e.g. {topic: 'kissing', untilPhase: 'Charged'}.
+    boundaries?: unknown[];
+
+    // Content-rating ceiling: 'G' | 'PG' | 'PG-13' | 'R' | 'unrestricted' (default). Caps phase and proximity,
+    // makes above-ceiling content a critical note and injects a fade-to-black instruction near the ceiling.
+    content_rating?: string;
+
     [key: string]: unknown;
 };
 
@@ -71,9 +106,10 @@ export type NormalizedConfig = Omit<ConfigSchema, 'enabled' | 'strictness' | 'me
     | 'scene_unresolved_beats_enabled' | 'note_unresolved_beats' | 'unresolved_beats_max_history' | 'unresolved_beats_snippet_max_chars'
     | 'tune_unresolved_beat_score_threshold' | 'tune_unresolved_beat_cooldown_turns'
     | 'tune_phase_weight_threshold' | 'tune_delta_score_threshold' | 'tune_ui_note_parts'
-    | 'tune_emotion_extra' | 'tune_scene_location_place_heads' | 'tune_scene_location_stopwords'
+    | 'tune_emotion_extra' | 'tune_scene_location_place_heads' | 'tune_scene_location_stopwords' | 'lexicon_packs' | 'language'
+    | 'relationship_ladder' | 'relationship_ladders' | 'safe_words' | 'boundaries' | 'content_rating'
     | 'note_scene_summary' | 'note_emotion_delta' | 'note_phase' | 'note_proximity' | 'note_consent'
-    | 'note_subtext' | 'note_silence' | 'note_drift' | 'note_scar_recall'> & {
+    | 'note_subtext' | 'note_silence' | 'note_drift' | 'note_scar_recall' | 'note_pacing' | 'note_teleport' | 'note_timeline' | 'note_presence' | 'note_continuity' | 'note_objects' | 'note_environment'> & {
     enabled: boolean;
     strictness: number;
     memory_depth: number;
@@ -107,6 +143,13 @@ export type NormalizedConfig = Omit<ConfigSchema, 'enabled' | 'strictness' | 'me
     note_silence: boolean;
     note_drift: boolean;
     note_scar_recall: boolean;
+    note_pacing: boolean;
+    note_teleport: boolean;
+    note_timeline: boolean;
+    note_presence: boolean;
+    note_continuity: boolean;
+    note_objects: boolean;
+    note_environment: boolean;
 
     tune_phase_weight_threshold: number | null;
     tune_delta_score_threshold: number | null;
@@ -115,6 +158,13 @@ export type NormalizedConfig = Omit<ConfigSchema, 'enabled' | 'strictness' | 'me
     tune_emotion_extra: Record<string, string[]>;
     tune_scene_location_place_heads: string[];
     tune_scene_location_stopwords: string[];
+    lexicon_packs: unknown[];
+    language: 'auto' | LexiconLanguage;
+    relationship_ladder: string;
+    relationship_ladders: unknown[];
+    safe_words: string[];
+    boundaries: unknown[];
+    content_rating: ContentRating;
 };
 
 export const DEFAULT_CONFIG: NormalizedConfig = {
@@ -150,6 +200,13 @@ export const DEFAULT_CONFIG: NormalizedConfig = {
     note_silence: true,
     note_drift: true,
     note_scar_recall: true,
+    note_pacing: true,
+    note_teleport: true,
+    note_timeline: true,
+    note_presence: true,
+    note_continuity: true,
+    note_objects: true,
+    note_environment: true,
 
     tune_phase_weight_threshold: null,
     tune_delta_score_threshold: null,
@@ -158,6 +215,13 @@ export const DEFAULT_CONFIG: NormalizedConfig = {
     tune_emotion_extra: {},
     tune_scene_location_place_heads: [],
     tune_scene_location_stopwords: [],
+    lexicon_packs: [],
+    language: 'auto',
+    relationship_ladder: 'slow_burn',
+    relationship_ladders: [],
+    safe_words: ['red', 'stop'],
+    boundaries: [],
+    content_rating: 'unrestricted',
 } as const;
 
 function clamp(n: number, min: number, max: number): number {
@@ -273,6 +337,13 @@ export function normalizeConfig(cfg?: ConfigSchema | null): NormalizedConfig {
     const note_silence = asBool(src.note_silence, DEFAULT_CONFIG.note_silence);
     const note_drift = asBool(src.note_drift, DEFAULT_CONFIG.note_drift);
     const note_scar_recall = asBool(src.note_scar_recall, DEFAULT_CONFIG.note_scar_recall);
+    const note_pacing = asBool(src.note_pacing, DEFAULT_CONFIG.note_pacing);
+    const note_teleport = asBool(src.note_teleport, DEFAULT_CONFIG.note_teleport);
+    const note_timeline = asBool(src.note_timeline, DEFAULT_CONFIG.note_timeline);
+    const note_presence = asBool(src.note_presence, DEFAULT_CONFIG.note_presence);
+    const note_continuity = asBool(src.note_continuity, DEFAULT_CONFIG.note_continuity);
+    const note_objects = asBool(src.note_objects, DEFAULT_CONFIG.note_objects);
+    const note_environment = asBool(src.note_environment, DEFAULT_CONFIG.note_environment);
 
     const tune_phase_weight_threshold = (typeof src.tune_phase_weight_threshold === 'number' && Number.isFinite(src.tune_phase_weight_threshold))
         ? clamp(Math.floor(src.tune_phase_weight_threshold), 1, 20)
@@ -287,6 +358,28 @@ export function normalizeConfig(cfg?: ConfigSchema | null): NormalizedConfig {
     const tune_emotion_extra = normalizeStringRecordOfArrays((src as any).tune_emotion_extra) || DEFAULT_CONFIG.tune_emotion_extra;
     const tune_scene_location_place_heads = normalizeStringArray((src as any).tune_scene_location_place_heads) || DEFAULT_CONFIG.tune_scene_location_place_heads;
     const tune_scene_location_stopwords = normalizeStringArray((src as any).tune_scene_location_stopwords) || DEFAULT_CONFIG.tune_scene_location_stopwords;
+    // Pack contents are validated when compiled (`resolveLexicon`); here we only keep plain objects.
+    const lexicon_packs = Array.isArray((src as any).lexicon_packs)
+        ? ((src as any).lexicon_packs as unknown[]).filter((p) => p != null && typeof p === 'object' && !Array.isArray(p)).slice(0, 8)
+        : DEFAULT_CONFIG.lexicon_packs;
+    const languageRaw = typeof src.language === 'string' ? src.language.trim().toLowerCase() : '';
+    const language = languageRaw === 'auto' || isLexiconLanguage(languageRaw) ? languageRaw : DEFAULT_CONFIG.language;
+    // Ladders are validated when resolved (`resolveLadder`); an unknown id falls back to the slow burn there.
+    const relationship_ladder = typeof src.relationship_ladder === 'string' && src.relationship_ladder.trim()
+        ? src.relationship_ladder.trim()
+        : DEFAULT_CONFIG.relationship_ladder;
+    const relationship_ladders = Array.isArray((src as any).relationship_ladders)
+        ? ((src as any).relationship_ladders as unknown[]).filter((l) => l != null && typeof l === 'object' && !Array.isArray(l)).slice(0, 8)
+        : DEFAULT_CONFIG.relationship_ladders;
+    // An explicit empty list turns safe words off; stop phrases are always detected.
+    const safe_words = Array.isArray((src as any).safe_words)
+        ? normalizeStringArray((src as any).safe_words, {maxItems: 20})
+        : DEFAULT_CONFIG.safe_words;
+    // Boundaries are validated when evaluated (`normalizeBoundaries`).
+    const boundaries = Array.isArray((src as any).boundaries)
+        ? ((src as any).boundaries as unknown[]).filter((b) => b != null && typeof b === 'object' && !Array.isArray(b)).slice(0, 12)
+        : DEFAULT_CONFIG.boundaries;
+    const content_rating = parseContentRating(src.content_rating) ?? DEFAULT_CONFIG.content_rating;
 
     return {
         enabled,
@@ -321,6 +414,13 @@ export function normalizeConfig(cfg?: ConfigSchema | null): NormalizedConfig {
         note_silence,
         note_drift,
         note_scar_recall,
+        note_pacing,
+        note_teleport,
+        note_timeline,
+        note_presence,
+        note_continuity,
+        note_objects,
+        note_environment,
 
         tune_phase_weight_threshold,
         tune_delta_score_threshold,
@@ -329,6 +429,13 @@ export function normalizeConfig(cfg?: ConfigSchema | null): NormalizedConfig {
         tune_emotion_extra,
         tune_scene_location_place_heads,
         tune_scene_location_stopwords,
+        lexicon_packs,
+        language,
+        relationship_ladder,
+        relationship_ladders,
+        safe_words,
+        boundaries,
+        content_rating,
         // preserve unknown keys but do not trust their types
         ...Object.keys(src).reduce((acc: Record<string, unknown>, k) => {
             if (![
@@ -339,9 +446,10 @@ export function normalizeConfig(cfg?: ConfigSchema | null): NormalizedConfig {
                 'scene_unresolved_beats_enabled', 'note_unresolved_beats', 'unresolved_beats_max_history', 'unresolved_beats_snippet_max_chars',
                 'tune_unresolved_beat_score_threshold', 'tune_unresolved_beat_cooldown_turns',
                 'note_scene_summary', 'note_emotion_delta', 'note_phase', 'note_proximity', 'note_consent',
-                'note_subtext', 'note_silence', 'note_drift', 'note_scar_recall',
+                'note_subtext', 'note_silence', 'note_drift', 'note_scar_recall', 'note_pacing', 'note_teleport', 'note_timeline', 'note_presence', 'note_continuity', 'note_objects', 'note_environment',
                 'tune_phase_weight_threshold', 'tune_delta_score_threshold', 'tune_ui_note_parts',
-                'tune_emotion_extra', 'tune_scene_location_place_heads', 'tune_scene_location_stopwords',
+                'tune_emotion_extra', 'tune_scene_location_place_heads', 'tune_scene_location_stopwords', 'lexicon_packs', 'language',
+                'relationship_ladder', 'relationship_ladders', 'safe_words', 'boundaries', 'content_rating',
             ].includes(k)) {
                 acc[k] = (src as any)[k];
             }
@@ -383,10 +491,17 @@ export function validateConfig(cfg?: ConfigSchema | null): string[] {
     if (cfg.tune_emotion_extra != null && (typeof cfg.tune_emotion_extra !== 'object' || Array.isArray(cfg.tune_emotion_extra))) errors.push('`tune_emotion_extra` must be an object mapping tone -> string[].');
     if (cfg.tune_scene_location_place_heads != null && !Array.isArray(cfg.tune_scene_location_place_heads)) errors.push('`tune_scene_location_place_heads` must be an array of strings.');
     if (cfg.tune_scene_location_stopwords != null && !Array.isArray(cfg.tune_scene_location_stopwords)) errors.push('`tune_scene_location_stopwords` must be an array of strings.');
+    if (cfg.lexicon_packs != null && (!Array.isArray(cfg.lexicon_packs) || cfg.lexicon_packs.some((p) => p == null || typeof p !== 'object' || Array.isArray(p)))) errors.push('`lexicon_packs` must be an array of lexicon pack objects.');
+    if (cfg.language != null && !(cfg.language === 'auto' || isLexiconLanguage(cfg.language))) errors.push(`\`language\` must be 'auto' or one of: ${LEXICON_LANGUAGES.join(', ')}.`);
+    if (cfg.relationship_ladder != null && typeof cfg.relationship_ladder !== 'string') errors.push('`relationship_ladder` must be a ladder id string.');
+    if (cfg.relationship_ladders != null && (!Array.isArray(cfg.relationship_ladders) || cfg.relationship_ladders.some((l) => l == null || typeof l !== 'object' || Array.isArray(l)))) errors.push('`relationship_ladders` must be an array of ladder objects.');
+    if (cfg.safe_words != null && (!Array.isArray(cfg.safe_words) || cfg.safe_words.some((w) => typeof w !== 'string'))) errors.push('`safe_words` must be an array of strings.');
+    if (cfg.boundaries != null && (!Array.isArray(cfg.boundaries) || cfg.boundaries.some((b) => b == null || typeof b !== 'object' || Array.isArray(b)))) errors.push('`boundaries` must be an array of boundary objects.');
+    if (cfg.content_rating != null && !parseContentRating(cfg.content_rating)) errors.push(`\`content_rating\` must be one of: ${CONTENT_RATINGS.join(', ')}.`);
 
     for (const k of [
         'note_scene_summary', 'note_emotion_delta', 'note_phase', 'note_proximity', 'note_consent',
-        'note_subtext', 'note_silence', 'note_drift', 'note_scar_recall',
+        'note_subtext', 'note_silence', 'note_drift', 'note_scar_recall', 'note_pacing', 'note_teleport', 'note_timeline', 'note_presence', 'note_continuity', 'note_objects', 'note_environment',
     ] as const) {
         const v = (cfg as any)[k];
         if (v != null && !(typeof v === 'boolean' || typeof v === 'number')) errors.push(`\`${k}\` must be a boolean (or 0/1).`);
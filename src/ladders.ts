@@ -0,0 +1,179 @@
+/**
+ * Relationship ladders for the Romance Realism Pack: the ordered phases a pairing climbs
+ * (slow burn, enemies-to-lovers, friends-to-lovers, or user-defined tracks from `relationship_ladders`).
+ * Lexicon packs tag escalation signals with a core phase (`Neutral`..`Intimate`); each ladder maps
+ * signal types or core phases onto its own rungs and words its own skip warning.
+ */
+
+export const CORE_PHASES = ["Neutral", "Familiar", "Charged", "Intimate"] as const;
+export type CorePhase = typeof CORE_PHASES[number];
+
+// Minimum time a pairing should spend on a rung before climbing past it, in turns and/or in-story minutes.
+export type PhaseDwell = {turns?: number; minutes?: number};
+
+export type RelationshipLadder = {
+    id: string;
+    name?: string;
+    // Ordered rungs; the first one is the floor new pairings start on.
+    phases: string[];
+    // Escalation signal type -> rung (e.g. `attraction_language: "Rivals"`).
+    signalPhases?: Record<string, string>;
+    // Core phase -> rung for signal types not listed above. Unmapped core phases keep their name when
+    // the ladder has that rung, otherwise they are scaled onto the ladder by position.
+    corePhases?: Record<string, string>;
+    // Skip-warning template; `{phase}`, `{target}`, `{missing}` and `{ladder}` are filled in.
+    skipWarning?: string;
+    // Per-rung minimum dwell; rungs without one add nothing to the pacing budget.
+    minDwell?: Record<string, PhaseDwell>;
+};
+
+export const DEFAULT_LADDER_ID = "slow_burn";
+export const MAX_LADDER_PHASES = 8;
+
+const DEFAULT_SKIP_WARNING = "relationship signals suggest {target} but phase is {phase}{missing}. Consider intermediate beats.";
+
+export const BUILTIN_LADDERS: Record<string, RelationshipLadder> = {
+    slow_burn: {
+        id: "slow_burn",
+        name: "Slow burn",
+        phases: [...CORE_PHASES],
+        skipWarning: DEFAULT_SKIP_WARNING,
+        minDwell: {
+            Neutral: {turns: 3, minutes: 30},
+            Familiar: {turns: 6, minutes: 240},
+            Charged: {turns: 8, minutes: 1440},
+        },
+    },
+    enemies_to_lovers: {
+        id: "enemies_to_lovers",
+        name: "Enemies to lovers",
+        phases: ["Hostile", "Grudging", "Rivals", "Charged", "Intimate"],
+        corePhases: {Neutral: "Hostile", Familiar: "Grudging"},
+        signalPhases: {attraction_language: "Rivals"},
+        skipWarning: "the rivalry jumps from {phase} to {target}{missing}. Let the hostility thaw on the page first.",
+        minDwell: {
+            Hostile: {turns: 4, minutes: 120},
+            Grudging: {turns: 6, minutes: 480},
+            Rivals: {turns: 6, minutes: 1440},
+            Charged: {turns: 8, minutes: 1440},
+        },
+    },
+    friends_to_lovers: {
+        id: "friends_to_lovers",
+        name: "Friends to lovers",
+        phases: ["Friends", "Close", "Noticing", "Charged", "Intimate"],
+        corePhases: {Neutral: "Friends", Familiar: "Close"},
+        signalPhases: {attraction_language: "Noticing"},
+        skipWarning: "signals suggest {target} but they are still {phase}{missing}. Show one of them noticing the other before the friendship tips.",
+        minDwell: {
+            Friends: {turns: 3, minutes: 60},
+            Close: {turns: 4, minutes: 240},
+            Noticing: {turns: 6, minutes: 1440},
+            Charged: {turns: 8, minutes: 1440},
+        },
+    },
+};
+
+function normalizeRungMap(raw: unknown, phases: string[], where: string, errors: string[]): Record<string, string> | undefined {
+    if (raw == null) return undefined;
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+        errors.push(`${where}: must be an object mapping names to rungs.`);
+        return undefined;
+    }
+    const out: Record<string, string> = {};
+    for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+        if (typeof v === "string" && phases.includes(v)) out[k] = v;
+        else errors.push(`${where}.${k}: "${String(v)}" is not a rung of this ladder.`);
+    }
+    return out;
+}
+
+function normalizeDwellMap(raw: unknown, phases: string[], where: string, errors: string[]): Record<string, PhaseDwell> | undefined {
+    if (raw == null) return undefined;
+    if (typeof raw !== "object" || Array.isArray(raw)) {
+        errors.push(`${where}: must be an object mapping rungs to {turns, minutes}.`);
+        return undefined;
+    }
+    const count = (n: unknown) => (typeof n === "number" && Number.isFinite(n) && n > 0 ? Math.floor(n) : undefined);
+    const out: Record<string, PhaseDwell> = {};
+    for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+        const turns = v && typeof v === "object" ? count((v as any).turns) : undefined;
+        const minutes = v && typeof v === "object" ? count((v as any).minutes) : undefined;
+        if (!phases.includes(k)) errors.push(`${where}.${k}: not a rung of this ladder.`);
+        else if (turns == null && minutes == null) errors.push(`${where}.${k}: needs positive \`turns\` and/or \`minutes\`.`);
+        else out[k] = {turns, minutes};
+    }
+    return out;
+}
+
+/**
+ * Validate a user-defined ladder: an `id` and 2..8 unique phase names; rung maps may only point at those phases.
+ */
+export function normalizeLadder(raw: unknown, where: string, errors: string[]): RelationshipLadder | null {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+        errors.push(`${where}: must be an object.`);
+        return null;
+    }
+    const src = raw as Record<string, unknown>;
+    const id = typeof src.id === "string" ? src.id.trim() : "";
+    if (!id) {
+        errors.push(`${where}: needs an \`id\`.`);
+        return null;
+    }
+    const phases = Array.isArray(src.phases)
+        ? Array.from(new Set(src.phases.filter((p): p is string => typeof p === "string").map((p) => p.trim()).filter(Boolean)))
+        : [];
+    if (phases.length < 2 || phases.length > MAX_LADDER_PHASES) {
+        errors.push(`${id}: \`phases\` needs 2-${MAX_LADDER_PHASES} unique names.`);
+        return null;
+    }
+    return {
+        id,
+        name: typeof src.name === "string" && src.name.trim() ? src.name.trim() : undefined,
+        phases,
+        signalPhases: normalizeRungMap(src.signalPhases, phases, `${id} signalPhases`, errors),
+        corePhases: normalizeRungMap(src.corePhases, phases, `${id} corePhases`, errors),
+        skipWarning: typeof src.skipWarning === "string" && src.skipWarning.trim() ? src.skipWarning.trim() : undefined,
+        minDwell: normalizeDwellMap(src.minDwell, phases, `${id} minDwell`, errors),
+    };
+}
+
+/**
+ * Pick the ladder `id` from the user-defined ladders (which may override a built-in id) or the built-ins;
+ * unknown ids fall back to the slow-burn ladder.
+ */
+export function resolveLadder(id: string | null | undefined, custom: unknown[] | null | undefined): {ladder: RelationshipLadder; errors: string[]} {
+    const errors: string[] = [];
+    const wanted = (id || DEFAULT_LADDER_ID).trim();
+    for (const [i, raw] of (Array.isArray(custom) ? custom : []).entries()) {
+        const ladder = normalizeLadder(raw, `ladder #${i}`, errors);
+        if (ladder && ladder.id === wanted) return {ladder, errors};
+    }
+    if (BUILTIN_LADDERS[wanted]) return {ladder: BUILTIN_LADDERS[wanted], errors};
+    errors.push(`unknown relationship ladder "${wanted}"; using ${DEFAULT_LADDER_ID}.`);
+    return {ladder: BUILTIN_LADDERS[DEFAULT_LADDER_ID], errors};
+}
+
+/**
+ * Rung an escalation signal points at on `ladder`. Anticipation signals map like the type they anticipate.
+ */
+export function ladderPhaseFor(ladder: RelationshipLadder, signal: {type: string; suggestedPhase: string; anticipates?: string}): string {
+    const phases = ladder.phases;
+    const byType = ladder.signalPhases?.[signal.anticipates || signal.type];
+    if (byType && phases.includes(byType)) return byType;
+    const core = signal.suggestedPhase;
+    const byCore = ladder.corePhases?.[core];
+    if (byCore && phases.includes(byCore)) return byCore;
+    if (phases.includes(core)) return core;
+    const coreIdx = Math.max(0, CORE_PHASES.indexOf(core as CorePhase));
+    return phases[Math.round((coreIdx / (CORE_PHASES.length - 1)) * (phases.length - 1))];
+}
+
+export function formatSkipWarning(ladder: RelationshipLadder, params: {phase: string; target: string; missing: string[]}): string {
+    const missing = params.missing.length > 0 ? ` (missing: ${params.missing.join(" → ")})` : "";
+    return (ladder.skipWarning || DEFAULT_SKIP_WARNING)
+        .replace(/\{phase\}/g, params.phase)
+        .replace(/\{target\}/g, params.target)
+        .replace(/\{missing\}/g, missing)
+        .replace(/\{ladder\}/g, ladder.name || ladder.id);
+}
@@ -0,0 +1,588 @@
+/**
+ * Declarative lexicon packs for the Romance Realism Pack.
+ * Packs are versioned, JSON-serializable pattern sets (tones, escalation signals, consent/agency
+ * patterns, scene place heads) compiled into the scoring helpers in `analysis_helpers.ts`.
+ * Built-in language packs live in `src/lexicons/<lang>.json`; domain packs (fantasy settings,
+ * office romance, ...) can be supplied via the `lexicon_packs` config key and merge on top of them.
+ */
+
+import type {EmotionVad, Proximity} from "./analysis_helpers";
+import {CORE_PHASES, type CorePhase} from "./ladders";
+import DE_PACK from "./lexicons/de.json" with {type: "json"};
+import EN_PACK from "./lexicons/en.json" with {type: "json"};
+import ES_PACK from "./lexicons/es.json" with {type: "json"};
+import FR_PACK from "./lexicons/fr.json" with {type: "json"};
+import PT_PACK from "./lexicons/pt.json" with {type: "json"};
+
+export const LEXICON_SCHEMA_VERSION = 1;
+
+export const LEXICON_LANGUAGES = ["en", "es", "fr", "de", "pt"] as const;
+export type LexiconLanguage = typeof LEXICON_LANGUAGES[number];
+
+// "skip" drops matches preceded by a nearby negation ("not angry"); "ignore" counts every match.
+export type LexiconNegation = "skip" | "ignore";
+
+export type LexiconPattern = {
+    label: string;
+    pattern?: string; // regex source
+    flags?: string; // defaults to "i"
+    terms?: string[]; // plain words/phrases, compiled into a word-bounded alternation
+    weight?: number; // defaults to 1
+    negation?: LexiconNegation; // defaults to "skip"
+};
+
+export type LexiconTone = {
+    minScore?: number;
+    // Position of the tone in valence/arousal/dominance space (each -1..1); used for dimensional deltas.
+    vad?: EmotionVad;
+    // Explicit keywords that imply at least medium intensity when this tone wins.
+    forceMediumLabels?: string[];
+    patterns?: LexiconPattern[];
+};
+
+export type LexiconEscalation = LexiconPattern & {type: string; suggestedPhase: CorePhase};
+
+// Relationship history stated in a character card ("ex-lovers", "childhood friends"): the phase and proximity the chat
+// starts at and the memory scar it carries. The first matching kind in pack order wins.
+export type LexiconHistory = LexiconCueSet & {kind: string; phase: CorePhase; proximity?: Proximity; scar?: string};
+
+export type LexiconConsent = LexiconPattern & {
+    issue: string;
+    critical?: boolean;
+    // "sentence" anchors the pattern to a sentence/clause start (avoids "Do you feel...?").
+    anchor?: "sentence";
+    // Regex source that suppresses the pattern when present anywhere in the narrative.
+    unless?: string;
+};
+
+// A bare cue list (negations, intensifiers, time-of-day words): regex source and/or plain terms.
+export type LexiconCueSet = {pattern?: string; terms?: string[]};
+
+// Cues that mark a match as not (yet) happening: "if you kissed me", "she wishes", "she imagines", "someday we'll".
+// Questions are detected from punctuation and need no cues.
+export const LEXICON_MODALITIES = ["conditional", "wish", "dream", "future"] as const;
+export type LexiconModality = typeof LEXICON_MODALITIES[number];
+
+// Ordered parts of an in-story day; the timeline flags moves back through this order with no sleep or time skip.
+export const DAYPARTS = ["dawn", "morning", "noon", "afternoon", "evening", "night", "late_night"] as const;
+export type Daypart = typeof DAYPARTS[number];
+
+// Physical-state cues for the continuity ledger. Item cues (clothing, held objects, body parts) put the item in their
+// first matching capture group: "takes off her (jacket)", "picks up the (glass)", "sprains her (ankle)".
+export const PHYSICAL_CUES = [
+    "undress", "dress", "wearing", "pickUp", "putDown", "injure", "heal", "strain", "guarded",
+    "wet", "dried", "dry", "tired", "rested", "energetic",
+] as const;
+export type PhysicalCue = typeof PHYSICAL_CUES[number];
+
+// Object-ledger cues: state changes and descriptions of props (doors, lamps) put the object in their first capture
+// group; `fill`, `contains`, `drinkFrom` and `place` use named groups whose names start with `item`, `contents` or
+// `place`, so alternatives can repeat a role (`item2`, `contents2`).
+export const OBJECT_CUES = [
+    "open", "close", "lock", "unlock", "switchOn", "switchOff", "isOpen", "isClosed", "isLocked", "isOn", "isOff",
+    "fill", "contains", "drinkFrom", "empty", "place",
+] as const;
+export type ObjectCue = typeof OBJECT_CUES[number];
+
+// Environment attributes the scene tracks and the values each can take.
+export const ENVIRONMENT_VALUES = {
+    weather: ["rain", "snow", "storm", "fog", "clear"],
+    lighting: ["dark", "dim", "candlelit", "bright"],
+    setting: ["indoors", "outdoors"],
+    temperature: ["cold", "warm", "hot"],
+} as const;
+export type EnvironmentAttribute = keyof typeof ENVIRONMENT_VALUES;
+export type EnvironmentValue<A extends EnvironmentAttribute = EnvironmentAttribute> = typeof ENVIRONMENT_VALUES[A][number];
+
+export type LexiconPack = {
+    schemaVersion: number;
+    id: string;
+    version: string;
+    language?: string;
+    description?: string;
+    // Treat accented letters as word characters: `\b` in patterns/terms becomes a Unicode-aware boundary.
+    unicodeWords?: boolean;
+    // Common function words used by `detectLanguage` (built-in packs only).
+    detect?: string[];
+    negation?: LexiconCueSet;
+    intensity?: {amplifiers?: LexiconCueSet; highStakes?: LexiconCueSet};
+    modality?: Partial<Record<LexiconModality, LexiconCueSet>>;
+    // Memory/flashback framing ("she remembers", "years ago", past perfect); the rest of the sentence is a recollection.
+    recollection?: LexiconCueSet;
+    // Character-card traits that seed the emotional baseline: "stoic" characters rarely show much, "bubbly" ones often do.
+    temperament?: {reserved?: LexiconCueSet; expressive?: LexiconCueSet};
+    // Out-of-story stop requests in the user's message ("I'm not comfortable with this", "let's stop").
+    stopIntent?: LexiconCueSet;
+    // Topics user-declared boundaries can name ("kissing", "jealousy"); later packs add cues to a topic.
+    boundaryTopics?: Record<string, LexiconCueSet>;
+    // Clothing, held objects, injuries, wetness and tiredness for the physical-state ledger.
+    physical?: Partial<Record<PhysicalCue, LexiconCueSet>>;
+    // Props, their open/closed/on/off state, what vessels hold and where things are put, for the object ledger.
+    objects?: Partial<Record<ObjectCue, LexiconCueSet>>;
+    // Card relationship history. A kind only counts when the card ties it to the user: a `pair` word joining the
+    // character and the user ("Mara and you are ..."), a `userPossessive` ("your ex-wife"), a `charPossessive` in a
+    // sentence about the user ("you are her ..."), or a `user` word as its object ("cheated on you"), possibly after a
+    // `preposition` ("broke up with you").
+    history?: {
+        pair?: LexiconCueSet;
+        user?: LexiconCueSet;
+        preposition?: LexiconCueSet;
+        userPossessive?: LexiconCueSet;
+        charPossessive?: LexiconCueSet;
+        kinds?: LexiconHistory[];
+    };
+    keywordStopwords?: string[];
+    tones?: Record<string, LexiconTone>;
+    escalation?: LexiconEscalation[];
+    consent?: LexiconConsent[];
+    scene?: {
+        placeHeads?: string[];
+        stopwords?: string[];
+        prepositions?: string[];
+        determiners?: string[];
+        timesOfDay?: LexiconCueSet;
+        // Time words per part of the day ("dusk" -> evening, "midnight" -> late_night).
+        dayparts?: Partial<Record<Daypart, LexiconCueSet>>;
+        // Falling asleep / waking up: a night may have passed.
+        sleep?: LexiconCueSet;
+        // Travel and transition cues ("walks to", "arrives", "meanwhile") that explain a change of location.
+        travel?: LexiconCueSet;
+        // Verb phrases right after a character's name that bring them into the scene ("walks in") or take them out ("hangs up").
+        entrances?: LexiconCueSet;
+        exits?: LexiconCueSet;
+        // Descriptions of weather, lighting, indoor/outdoor setting and temperature, per value ("candlelight" -> candlelit).
+        environment?: {[A in EnvironmentAttribute]?: Partial<Record<EnvironmentValue<A>, LexiconCueSet>>};
+        // Narrated changes ("the rain stops", "she blows out the candles") that allow an attribute to move on.
+        environmentChanges?: Partial<Record<EnvironmentAttribute, LexiconCueSet>>;
+        // Narrated time skips ("hours later", "the next morning") with the story minutes they stand for.
+        timeSkips?: Array<LexiconCueSet & {minutes: number}>;
+    };
+};
+
+export type CompiledPattern = {label: string; re: RegExp; weight: number; negation: LexiconNegation};
+
+export type CompiledTone = {tone: string; minScore: number; vad: EmotionVad | null; forceMediumLabels: Set<string>; patterns: CompiledPattern[]};
+
+export type CompiledLexicon = {
+    packIds: string[];
+    language: string;
+    unicode: boolean;
+    negation: RegExp[];
+    amplifiers: RegExp[];
+    highStakes: RegExp[];
+    modality: Array<{kind: LexiconModality; re: RegExp}>;
+    recollection: RegExp[];
+    reserved: RegExp[];
+    expressive: RegExp[];
+    stopIntent: RegExp[];
+    boundaryTopics: Record<string, RegExp[]>;
+    physical: Array<{kind: PhysicalCue; re: RegExp}>;
+    objects: Array<{kind: ObjectCue; re: RegExp}>;
+    historyLinks: {pair: RegExp[]; user: RegExp[]; preposition: RegExp[]; userPossessive: RegExp[]; charPossessive: RegExp[]};
+    history: Array<{kind: string; re: RegExp; phase: CorePhase; proximity: Proximity | null; scar: string | null}>;
+    keywordStopwords: string[];
+    tones: CompiledTone[];
+    escalation: Array<CompiledPattern & {type: string; suggestedPhase: CorePhase}>;
+    consent: Array<CompiledPattern & {issue: string; critical: boolean; unless: RegExp | null}>;
+    placeHeads: string[];
+    stopwords: string[];
+    prepositions: string[];
+    determiners: string[];
+    timesOfDay: RegExp[];
+    dayparts: Array<{part: Daypart; re: RegExp}>;
+    sleep: RegExp[];
+    travel: RegExp[];
+    entrances: RegExp[];
+    exits: RegExp[];
+    environment: Array<{attribute: EnvironmentAttribute; value: EnvironmentValue; re: RegExp}>;
+    environmentChanges: Array<{attribute: EnvironmentAttribute; re: RegExp}>;
+    timeSkips: Array<{re: RegExp; minutes: number}>;
+};
+
+const HISTORY_PROXIMITIES: Proximity[] = ["Distant", "Nearby", "Touching", "Intimate"];
+
+const SENTENCE_START = "(^|[.!?]\\s+|;\\s+|:\\s+)\\s*";
+const UNICODE_WORD_BOUNDARY = "(?:(?<=[\\p{L}\\p{N}_])(?![\\p{L}\\p{N}_])|(?<![\\p{L}\\p{N}_])(?=[\\p{L}\\p{N}_]))";
+
+/**
+ * Compile a regex source, rewriting `\b` into a Unicode-aware boundary when `unicode` is set
+ * (JS `\b` only knows ASCII word characters, so "corazón\b" never matches).
+ */
+export function compileWordRegex(source: string, flags: string, unicode: boolean): RegExp {
+    if (!unicode) return new RegExp(source, flags);
+    const rewritten = source.replace(/(^|[^\\])((?:\\\\)*)\\b/g, `$1$2${UNICODE_WORD_BOUNDARY}`);
+    return new RegExp(rewritten, flags.includes("u") ? flags : `${flags}u`);
+}
+
+export function escapeRegExp(s: string): string {
+    return (s || "").replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function compileLooseTermsRegex(terms: string[] | null | undefined, maxTerms: number = 80): RegExp | null {
+    if (!Array.isArray(terms) || terms.length === 0) return null;
+    const cleaned = Array.from(new Set(terms.map((t) => String(t || "").trim()).filter(Boolean))).slice(0, maxTerms);
+    if (cleaned.length === 0) return null;
+    const parts = cleaned.map((t) => {
+        const esc = escapeRegExp(t).replace(/\s+/g, "\\s+");
+        return /\s/.test(t) ? esc : `\\b${esc}\\b`;
+    });
+    return new RegExp(`(?:${parts.join("|")})`, "i");
+}
+
+function compilePattern(raw: unknown, where: string, errors: string[], unicode: boolean, prefix: string = ""): CompiledPattern | null {
+    if (!raw || typeof raw !== "object") {
+        errors.push(`${where}: pattern must be an object.`);
+        return null;
+    }
+    const p = raw as LexiconPattern;
+    const label = typeof p.label === "string" && p.label.trim() ? p.label.trim() : null;
+    if (!label) {
+        errors.push(`${where}: pattern is missing a label.`);
+        return null;
+    }
+    const weight = typeof p.weight === "number" && Number.isFinite(p.weight) ? p.weight : 1;
+    const negation: LexiconNegation = p.negation === "ignore" ? "ignore" : "skip";
+    let re: RegExp | null = null;
+    try {
+        if (typeof p.pattern === "string" && p.pattern.length > 0) {
+            const flags = typeof p.flags === "string" ? p.flags.replace(/[^imsu]/g, "") : "i";
+            re = compileWordRegex(`${prefix}${p.pattern}`, flags, unicode);
+        } else {
+            const terms = compileLooseTermsRegex(Array.isArray(p.terms) ? p.terms : null, 250);
+            re = terms ? compileWordRegex(`${prefix}${terms.source}`, "i", unicode) : null;
+        }
+    } catch (e) {
+        errors.push(`${where} (${label}): invalid pattern (${(e as Error).message}).`);
+        return null;
+    }
+    if (!re) {
+        errors.push(`${where} (${label}): needs \`pattern\` or \`terms\`.`);
+        return null;
+    }
+    return {label, re, weight, negation};
+}
+
+function compileCueSet(raw: unknown, where: string, errors: string[], unicode: boolean): RegExp | null {
+    if (!raw || typeof raw !== "object") return null;
+    const compiled = compilePattern({label: where, ...(raw as LexiconCueSet)}, where, errors, unicode);
+    return compiled ? compiled.re : null;
+}
+
+function compileVad(raw: unknown): EmotionVad | null {
+    if (!raw || typeof raw !== "object") return null;
+    const clampUnit = (n: unknown) => (typeof n === "number" && Number.isFinite(n) ? Math.max(-1, Math.min(1, n)) : null);
+    const valence = clampUnit((raw as any).valence);
+    const arousal = clampUnit((raw as any).arousal);
+    const dominance = clampUnit((raw as any).dominance);
+    if (valence == null || arousal == null || dominance == null) return null;
+    return {valence, arousal, dominance};
+}
+
+function asStringList(v: unknown): string[] {
+    if (!Array.isArray(v)) return [];
+    return v.filter((s): s is string => typeof s === "string")
+        .map((s) => s.toLowerCase().replace(/\s+/g, " ").trim())
+        .filter(Boolean);
+}
+
+/**
+ * Compile and merge lexicon packs in order. Later packs append patterns, add tones,
+ * override `minScore`, and extend scene lists. Invalid packs/patterns are skipped and reported.
+ */
+export function compileLexiconPacks(packs: unknown[]): {lexicon: CompiledLexicon; errors: string[]} {
+    const errors: string[] = [];
+    const packIds: string[] = [];
+    let language = "";
+    let anyUnicode = false;
+    const negation: RegExp[] = [];
+    const amplifiers: RegExp[] = [];
+    const highStakes: RegExp[] = [];
+    const modality: CompiledLexicon["modality"] = [];
+    const recollection: RegExp[] = [];
+    const reserved: RegExp[] = [];
+    const expressive: RegExp[] = [];
+    const stopIntent: RegExp[] = [];
+    const boundaryTopics: CompiledLexicon["boundaryTopics"] = {};
+    const physical: CompiledLexicon["physical"] = [];
+    const objects: CompiledLexicon["objects"] = [];
+    const historyLinks: CompiledLexicon["historyLinks"] = {pair: [], user: [], preposition: [], userPossessive: [], charPossessive: []};
+    const history: CompiledLexicon["history"] = [];
+    const timesOfDay: RegExp[] = [];
+    const dayparts: CompiledLexicon["dayparts"] = [];
+    const sleep: RegExp[] = [];
+    const travel: RegExp[] = [];
+    const entrances: RegExp[] = [];
+    const exits: RegExp[] = [];
+    const environment: CompiledLexicon["environment"] = [];
+    const environmentChanges: CompiledLexicon["environmentChanges"] = [];
+    const timeSkips: CompiledLexicon["timeSkips"] = [];
+    const keywordStopwords = new Set<string>();
+    const prepositions = new Set<string>();
+    const determiners = new Set<string>();
+    const tones = new Map<string, CompiledTone>();
+    const escalation: CompiledLexicon["escalation"] = [];
+    const consent: CompiledLexicon["consent"] = [];
+    const placeHeads = new Set<string>();
+    const stopwords = new Set<string>();
+
+    for (const [i, raw] of (Array.isArray(packs) ? packs : []).entries()) {
+        if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+            errors.push(`pack #${i}: must be an object.`);
+            continue;
+        }
+        const pack = raw as LexiconPack;
+        const id = typeof pack.id === "string" && pack.id.trim() ? pack.id.trim() : `pack #${i}`;
+        if (pack.schemaVersion !== LEXICON_SCHEMA_VERSION) {
+            errors.push(`${id}: unsupported schemaVersion ${String(pack.schemaVersion)} (expected ${LEXICON_SCHEMA_VERSION}).`);
+            continue;
+        }
+        packIds.push(typeof pack.version === "string" ? `${id}@${pack.version}` : id);
+        if (!language && typeof pack.language === "string") language = pack.language;
+        const unicode = pack.unicodeWords === true;
+        if (unicode) anyUnicode = true;
+
+        const cues: Array<[unknown, string, RegExp[]]> = [
+            [pack.negation, `${id} negation`, negation],
+            [pack.intensity?.amplifiers, `${id} intensity.amplifiers`, amplifiers],
+            [pack.intensity?.highStakes, `${id} intensity.highStakes`, highStakes],
+            [pack.recollection, `${id} recollection`, recollection],
+            [pack.temperament?.reserved, `${id} temperament.reserved`, reserved],
+            [pack.temperament?.expressive, `${id} temperament.expressive`, expressive],
+            [pack.stopIntent, `${id} stopIntent`, stopIntent],
+            [pack.history?.pair, `${id} history.pair`, historyLinks.pair],
+            [pack.history?.user, `${id} history.user`, historyLinks.user],
+            [pack.history?.preposition, `${id} history.preposition`, historyLinks.preposition],
+            [pack.history?.userPossessive, `${id} history.userPossessive`, historyLinks.userPossessive],
+            [pack.history?.charPossessive, `${id} history.charPossessive`, historyLinks.charPossessive],
+            [pack.scene?.timesOfDay, `${id} scene.timesOfDay`, timesOfDay],
+            [pack.scene?.sleep, `${id} scene.sleep`, sleep],
+            [pack.scene?.travel, `${id} scene.travel`, travel],
+            [pack.scene?.entrances, `${id} scene.entrances`, entrances],
+            [pack.scene?.exits, `${id} scene.exits`, exits],
+        ];
+        for (const [raw, where, into] of cues) {
+            const re = compileCueSet(raw, where, errors, unicode);
+            if (re) into.push(re);
+        }
+        if (pack.boundaryTopics && typeof pack.boundaryTopics === "object") {
+            for (const [topic, def] of Object.entries(pack.boundaryTopics)) {
+                const re = compileCueSet(def, `${id} boundaryTopics.${topic}`, errors, unicode);
+                if (re) boundaryTopics[topic.toLowerCase()] = (boundaryTopics[topic.toLowerCase()] || []).concat([re]);
+            }
+        }
+        for (const part of DAYPARTS) {
+            const re = compileCueSet(pack.scene?.dayparts?.[part], `${id} scene.dayparts.${part}`, errors, unicode);
+            if (re) dayparts.push({part, re});
+        }
+        for (const attribute of Object.keys(ENVIRONMENT_VALUES) as EnvironmentAttribute[]) {
+            for (const value of ENVIRONMENT_VALUES[attribute]) {
+                const cues = pack.scene?.environment?.[attribute] as Partial<Record<EnvironmentValue, LexiconCueSet>> | undefined;
+                const re = compileCueSet(cues?.[value], `${id} scene.environment.${attribute}.${value}`, errors, unicode);
+                if (re) environment.push({attribute, value, re});
+            }
+            const change = compileCueSet(pack.scene?.environmentChanges?.[attribute], `${id} scene.environmentChanges.${attribute}`, errors, unicode);
+            if (change) environmentChanges.push({attribute, re: change});
+        }
+        for (const kind of PHYSICAL_CUES) {
+            const re = compileCueSet(pack.physical?.[kind], `${id} physical.${kind}`, errors, unicode);
+            if (re) physical.push({kind, re});
+        }
+        for (const kind of OBJECT_CUES) {
+            const re = compileCueSet(pack.objects?.[kind], `${id} objects.${kind}`, errors, unicode);
+            if (re) objects.push({kind, re});
+        }
+        for (const h of (Array.isArray(pack.history?.kinds) ? pack.history.kinds : [])) {
+            const kind = h && typeof h.kind === "string" ? h.kind : null;
+            if (!kind || !(CORE_PHASES as readonly string[]).includes(h.phase)) {
+                errors.push(`${id} history.kinds: entries need a \`kind\` and a valid \`phase\`.`);
+                continue;
+            }
+            if (h.proximity != null && !(HISTORY_PROXIMITIES as readonly string[]).includes(h.proximity)) {
+                errors.push(`${id} history.kinds.${kind}: \`proximity\` must be one of ${HISTORY_PROXIMITIES.join(", ")}.`);
+                continue;
+            }
+            const re = compileCueSet(h, `${id} history.kinds.${kind}`, errors, unicode);
+            if (re) history.push({kind, re, phase: h.phase, proximity: h.proximity ?? null, scar: typeof h.scar === "string" && h.scar ? h.scar : null});
+        }
+        for (const kind of LEXICON_MODALITIES) {
+            const re = compileCueSet(pack.modality?.[kind], `${id} modality.${kind}`, errors, unicode);
+            if (re) modality.push({kind, re});
+        }
+        for (const w of asStringList(pack.keywordStopwords)) keywordStopwords.add(w);
+
+        if (pack.tones && typeof pack.tones === "object") {
+            for (const [toneName, def] of Object.entries(pack.tones)) {
+                if (!def || typeof def !== "object") continue;
+                const tone = tones.get(toneName) || {tone: toneName, minScore: 1, vad: null, forceMediumLabels: new Set<string>(), patterns: []};
+                if (typeof def.minScore === "number" && Number.isFinite(def.minScore)) tone.minScore = def.minScore;
+                if (def.vad !== undefined) {
+                    const vad = compileVad(def.vad);
+                    if (vad) tone.vad = vad;
+                    else errors.push(`${id} tones.${toneName}: \`vad\` needs numeric valence/arousal/dominance.`);
+                }
+                for (const l of (Array.isArray(def.forceMediumLabels) ? def.forceMediumLabels : [])) {
+                    if (typeof l === "string") tone.forceMediumLabels.add(l);
+                }
+                for (const p of (Array.isArray(def.patterns) ? def.patterns : [])) {
+                    const compiled = compilePattern(p, `${id} tones.${toneName}`, errors, unicode);
+                    if (compiled) tone.patterns.push(compiled);
+                }
+                tones.set(toneName, tone);
+            }
+        }
+
+        for (const e of (Array.isArray(pack.escalation) ? pack.escalation : [])) {
+            const type = e && typeof e.type === "string" ? e.type : null;
+            if (!type || !(CORE_PHASES as readonly string[]).includes(e.suggestedPhase)) {
+                errors.push(`${id} escalation: entries need a \`type\` and a valid \`suggestedPhase\`.`);
+                continue;
+            }
+            const compiled = compilePattern({...e, label: e.label || type}, `${id} escalation.${type}`, errors, unicode);
+            if (compiled) escalation.push({...compiled, type, suggestedPhase: e.suggestedPhase});
+        }
+
+        for (const c of (Array.isArray(pack.consent) ? pack.consent : [])) {
+            const issue = c && typeof c.issue === "string" ? c.issue : null;
+            if (!issue) {
+                errors.push(`${id} consent: entries need an \`issue\`.`);
+                continue;
+            }
+            const compiled = compilePattern({...c, label: c.label || issue, negation: c.negation ?? "ignore"}, `${id} consent`, errors, unicode, c.anchor === "sentence" ? SENTENCE_START : "");
+            if (!compiled) continue;
+            let unless: RegExp | null = null;
+            try {
+                unless = typeof c.unless === "string" && c.unless ? compileWordRegex(c.unless, "i", unicode) : null;
+            } catch (e) {
+                errors.push(`${id} consent (${issue}): invalid \`unless\` (${(e as Error).message}).`);
+            }
+            consent.push({...compiled, issue, critical: c.critical === true, unless});
+        }
+
+        for (const h of asStringList(pack.scene?.placeHeads)) placeHeads.add(h);
+        for (const w of asStringList(pack.scene?.stopwords)) stopwords.add(w);
+        for (const w of asStringList(pack.scene?.prepositions)) prepositions.add(w);
+        for (const w of asStringList(pack.scene?.determiners)) determiners.add(w);
+        for (const [j, s] of (Array.isArray(pack.scene?.timeSkips) ? pack.scene.timeSkips : []).entries()) {
+            if (!s || typeof s.minutes !== "number" || !Number.isFinite(s.minutes) || s.minutes <= 0) {
+                errors.push(`${id} scene.timeSkips[${j}]: needs positive \`minutes\`.`);
+                continue;
+            }
+            const re = compileCueSet(s, `${id} scene.timeSkips[${j}]`, errors, unicode);
+            if (re) timeSkips.push({re, minutes: s.minutes});
+        }
+    }
+
+    return {
+        lexicon: {
+            packIds,
+            language: language || "en",
+            unicode: anyUnicode,
+            negation,
+            amplifiers,
+            highStakes,
+            modality,
+            recollection,
+            reserved,
+            expressive,
+            stopIntent,
+            boundaryTopics,
+            physical,
+            objects,
+            historyLinks,
+            history,
+            keywordStopwords: Array.from(keywordStopwords),
+            tones: Array.from(tones.values()),
+            escalation,
+            consent,
+            placeHeads: Array.from(placeHeads),
+            stopwords: Array.from(stopwords),
+            prepositions: Array.from(prepositions),
+            determiners: Array.from(determiners),
+            timesOfDay,
+            dayparts,
+            sleep,
+            travel,
+            entrances,
+            exits,
+            environment,
+            environmentChanges,
+            timeSkips,
+        },
+        errors,
+    };
+}
+
+export const BUILTIN_LEXICON_PACKS: Record<LexiconLanguage, LexiconPack> = {
+    en: EN_PACK as LexiconPack,
+    es: ES_PACK as LexiconPack,
+    fr: FR_PACK as LexiconPack,
+    de: DE_PACK as LexiconPack,
+    pt: PT_PACK as LexiconPack,
+};
+
+export function isLexiconLanguage(v: unknown): v is LexiconLanguage {
+    return typeof v === "string" && (LEXICON_LANGUAGES as readonly string[]).includes(v);
+}
+
+const builtinLexicons = new Map<LexiconLanguage, CompiledLexicon>();
+
+function builtinLexicon(language: LexiconLanguage): CompiledLexicon {
+    const cached = builtinLexicons.get(language);
+    if (cached) return cached;
+    const compiled = compileLexiconPacks([BUILTIN_LEXICON_PACKS[language]]).lexicon;
+    builtinLexicons.set(language, compiled);
+    return compiled;
+}
+
+export const DEFAULT_LEXICON: CompiledLexicon = builtinLexicon("en");
+
+const detectRegexes = new Map<LexiconLanguage, RegExp | null>();
+
+/**
+ * Guess the language of a message from common function words in the built-in packs.
+ * Returns null when the text is too short or ambiguous; callers keep their previous guess.
+ */
+export function detectLanguage(text: string): LexiconLanguage | null {
+    if (!text || text.trim().length === 0) return null;
+    let best: LexiconLanguage | null = null;
+    let bestHits = 0;
+    let tie = false;
+    for (const language of LEXICON_LANGUAGES) {
+        if (!detectRegexes.has(language)) {
+            const terms = compileLooseTermsRegex(BUILTIN_LEXICON_PACKS[language].detect, 250);
+            detectRegexes.set(language, terms ? compileWordRegex(terms.source, "gi", true) : null);
+        }
+        const re = detectRegexes.get(language);
+        const hits = re ? (text.match(re) || []).length : 0;
+        if (hits > bestHits) {
+            best = language;
+            bestHits = hits;
+            tie = false;
+        } else if (hits > 0 && hits === bestHits) {
+            tie = true;
+        }
+    }
+    return best && bestHits >= 2 && !tie ? best : null;
+}
+
+const lexiconCache = new Map<string, {lexicon: CompiledLexicon; errors: string[]}>();
+
+/**
+ * Resolve the built-in pack for `language` plus any configured domain packs (cached by content).
+ */
+export function resolveLexicon(extraPacks: unknown[] | null | undefined, language: LexiconLanguage = "en"): {lexicon: CompiledLexicon; errors: string[]} {
+    const extra = Array.isArray(extraPacks) ? extraPacks : [];
+    if (extra.length === 0) return {lexicon: builtinLexicon(language), errors: []};
+    let key: string;
+    try {
+        key = `${language}:${JSON.stringify(extra)}`;
+    } catch {
+        return {lexicon: builtinLexicon(language), errors: ["lexicon_packs: packs must be JSON-serializable."]};
+    }
+    const cached = lexiconCache.get(key);
+    if (cached) return cached;
+    const compiled = compileLexiconPacks([BUILTIN_LEXICON_PACKS[language], ...extra]);
+    if (lexiconCache.size >= 8) lexiconCache.clear();
+    lexiconCache.set(key, compiled);
+    return compiled;
+}
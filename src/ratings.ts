@@ -0,0 +1,98 @@
+/**
+ * Content-rating ceilings (`content_rating`): the highest core phase and proximity a deployment allows, the
+ * boundary topics that sit above it, and the fade-to-black instruction injected as the story nears it.
+ * `unrestricted` has no ceiling.
+ */
+
+import type {Proximity} from "./analysis_helpers";
+import type {Boundary} from "./boundaries";
+import {ladderPhaseFor, type CorePhase, type RelationshipLadder} from "./ladders";
+
+export const CONTENT_RATINGS = ["G", "PG", "PG-13", "R", "unrestricted"] as const;
+export type ContentRating = typeof CONTENT_RATINGS[number];
+
+export type RatingCeiling = {
+    rating: ContentRating;
+    maxPhase: CorePhase;
+    maxProximity: Proximity;
+    // Boundary topics (lexicon `boundaryTopics`) that are above the ceiling at any phase.
+    topics: string[];
+    fadeToBlack: string;
+};
+
+const PROXIMITY_LEVELS: Proximity[] = ["Distant", "Nearby", "Touching", "Intimate"];
+
+const RATING_CEILINGS: Record<Exclude<ContentRating, "unrestricted">, Omit<RatingCeiling, "rating">> = {
+    "G": {
+        maxPhase: "Familiar",
+        maxProximity: "Nearby",
+        topics: ["kissing", "sexual_content", "violence"],
+        fadeToBlack: "keep it friendly and all-ages; no kissing, physical romance or violence on the page.",
+    },
+    "PG": {
+        maxPhase: "Charged",
+        maxProximity: "Touching",
+        topics: ["sexual_content", "violence"],
+        fadeToBlack: "romance stays sweet; cut away before anything beyond a brief kiss or embrace.",
+    },
+    "PG-13": {
+        maxPhase: "Charged",
+        maxProximity: "Touching",
+        topics: ["sexual_content"],
+        fadeToBlack: "fade to black before anything sexual; imply it and skip ahead.",
+    },
+    "R": {
+        maxPhase: "Intimate",
+        maxProximity: "Intimate",
+        topics: [],
+        fadeToBlack: "intimacy may happen but stays non-explicit; fade to black before graphic detail.",
+    },
+};
+
+/**
+ * Canonical rating for loose input ("pg13", "pg-13", "R"), or null when unrecognized.
+ */
+export function parseContentRating(raw: unknown): ContentRating | null {
+    if (typeof raw !== "string") return null;
+    const key = raw.trim().toUpperCase().replace(/[\s_]+/g, "").replace(/^PG-?13$/, "PG-13");
+    if (key === "UNRESTRICTED" || key === "NONE") return "unrestricted";
+    return (CONTENT_RATINGS as readonly string[]).includes(key) ? key as ContentRating : null;
+}
+
+export function ratingCeiling(rating: ContentRating | null | undefined): RatingCeiling | null {
+    if (!rating || rating === "unrestricted") return null;
+    return {rating, ...RATING_CEILINGS[rating]};
+}
+
+/**
+ * Index of the highest rung `ladder` allows under the ceiling (the rung its `maxPhase` maps onto).
+ */
+export function ceilingPhaseIndex(ceiling: RatingCeiling, ladder: RelationshipLadder): number {
+    return ladder.phases.indexOf(ladderPhaseFor(ladder, {type: "", suggestedPhase: ceiling.maxPhase}));
+}
+
+export function clampProximity(proximity: Proximity, ceiling: RatingCeiling | null): Proximity {
+    if (!ceiling) return proximity;
+    return PROXIMITY_LEVELS.indexOf(proximity) > PROXIMITY_LEVELS.indexOf(ceiling.maxProximity) ? ceiling.maxProximity : proximity;
+}
+
+/**
+ * The ceiling's topics as ungated hard boundaries, so `detectBoundaryViolations` can find above-ceiling content.
+ */
+export function ratingBoundaries(ceiling: RatingCeiling | null): Boundary[] {
+    return ceiling ? ceiling.topics.map((topic) => ({topic, level: "hard" as const})) : [];
+}
+
+/**
+ * Whether the story is within one step of the ceiling on either the phase or the proximity track.
+ */
+export function nearCeiling(ceiling: RatingCeiling, params: {phase: string; proximity: Proximity; ladder: RelationshipLadder}): boolean {
+    const phaseIdx = Math.max(0, params.ladder.phases.indexOf(params.phase));
+    const proximityIdx = Math.max(0, PROXIMITY_LEVELS.indexOf(params.proximity));
+    return phaseIdx >= ceilingPhaseIndex(ceiling, params.ladder) - 1
+        || proximityIdx >= PROXIMITY_LEVELS.indexOf(ceiling.maxProximity) - 1;
+}
+
+export function formatFadeToBlack(ceiling: RatingCeiling): string {
+    return `rated ${ceiling.rating}: ${ceiling.fadeToBlack}`;
+}
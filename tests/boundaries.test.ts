@@ -0,0 +1,52 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {describeBoundary, formatBoundarySummary, isBoundaryActive, normalizeBoundaries, normalizeBoundaryTopic} from "../src/boundaries";
+import {BUILTIN_LADDERS} from "../src/ladders";
+import {detectBoundaryViolations} from "../src/analysis_helpers";
+import {resolveLexicon} from "../src/lexicon";
+
+const ladder = BUILTIN_LADDERS.slow_burn;
+
+test("normalizeBoundaries: resolves topic aliases, defaults to hard and reports bad fields", () => {
+    assert.equal(normalizeBoundaryTopic("no kisses"), "kissing");
+    assert.equal(normalizeBoundaryTopic("Jealousy plots"), "jealousy");
+    assert.equal(normalizeBoundaryTopic("smoking"), "smoking");
+
+    const {boundaries, errors} = normalizeBoundaries([
+        {topic: "kiss", untilPhase: "Charged"},
+        {topic: "jealousy plots", level: "soft"},
+        {topic: "cheating", level: "maybe", untilProximity: "Closer"},
+        {level: "soft"},
+        {topic: "kissing", level: "soft", untilPhase: "Charged"},
+    ]);
+    assert.deepEqual(boundaries.map((b) => [b.topic, b.level]), [["jealousy", "soft"], ["infidelity", "hard"], ["kissing", "soft"]]);
+    assert.equal(errors.length, 3);
+    assert.equal(formatBoundarySummary(boundaries), "hard limits: no infidelity; soft limits: no jealousy, no kissing before Charged");
+});
+
+test("isBoundaryActive: phase and proximity gates lift the limit once reached", () => {
+    const kissing = {topic: "kissing", level: "hard" as const, untilPhase: "Charged"};
+    assert.equal(isBoundaryActive(kissing, {phase: "Familiar", proximity: "Touching", ladder}), true);
+    assert.equal(isBoundaryActive(kissing, {phase: "Charged", proximity: "Nearby", ladder}), false);
+    assert.equal(isBoundaryActive({...kissing, untilPhase: "Rivals"}, {phase: "Intimate", proximity: "Intimate", ladder}), true);
+
+    const touching = {topic: "touching", level: "soft" as const, untilProximity: "Touching" as const};
+    assert.equal(isBoundaryActive(touching, {phase: "Intimate", proximity: "Nearby", ladder}), true);
+    assert.equal(isBoundaryActive(touching, {phase: "Neutral", proximity: "Touching", ladder}), false);
+    assert.equal(describeBoundary({...kissing, untilProximity: "Touching"}), "no kissing before Charged and proximity Touching");
+});
+
+test("detectBoundaryViolations: stated matches only, with custom terms and localized topics", () => {
+    const boundaries = [
+        {topic: "kissing", level: "hard" as const, untilPhase: "Charged"},
+        {topic: "smoking", level: "soft" as const, terms: ["cigarette", "lights up"]},
+    ];
+    const params = {phase: "Familiar", proximity: "Nearby" as const, ladder};
+    const hits = detectBoundaryViolations("He leans in and kisses you, then lights up a cigarette.", boundaries, params);
+    assert.deepEqual(hits.map((h) => [h.topic, h.level, h.evidence]), [["kissing", "hard", "kisses"], ["smoking", "soft", "lights up"]]);
+    assert.equal(hits[0].boundary, "no kissing before Charged");
+
+    assert.deepEqual(detectBoundaryViolations("He doesn't kiss you. If you kissed him, he would melt.", boundaries, params), []);
+    assert.deepEqual(detectBoundaryViolations("He kisses you.", boundaries, {...params, phase: "Charged"}), []);
+    assert.equal(detectBoundaryViolations("Ella te besa despacio.", boundaries, params, resolveLexicon([], "es").lexicon)[0]?.topic, "kissing");
+});
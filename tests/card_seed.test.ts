@@ -0,0 +1,69 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {detectCardHistory, expandCardMacros, seedFromCard} from "../src/card_seed";
+import {resolveLexicon} from "../src/lexicon";
+
+test("expandCardMacros: {{char}} becomes the name, {{user}} the given reader", () => {
+    assert.equal(expandCardMacros("{{char}} waves at {{user}}.", "Mara"), "Mara waves at {{user}}.");
+    assert.equal(expandCardMacros("{{ Char }} waves at {{USER}}.", "Mara", "you"), "Mara waves at you.");
+    assert.equal(expandCardMacros(null, "Mara"), "");
+});
+
+test("detectCardHistory: ex-lovers start Familiar and Distant with a rejection scar", () => {
+    const history = detectCardHistory({
+        name: "Mara",
+        scenario: "{{char}} and {{user}} are ex-lovers who haven't spoken in three years.",
+    }, {now: 5});
+    assert.equal(history?.kind, "ex_lovers");
+    assert.equal(history?.phase, "Familiar");
+    assert.equal(history?.proximity, "Distant");
+    assert.equal(history?.scar?.event, "rejection");
+    assert.equal(history?.scar?.at, 5);
+    assert.match(history?.evidence || "", /^Mara and you are ex-lovers/);
+});
+
+test("detectCardHistory: only history tying the character to the user counts; the first kind in pack order wins", () => {
+    // Her marriage to someone else says nothing about the user, even in a sentence that mentions them.
+    assert.equal(detectCardHistory({name: "Mara", description: "Mara is married to a fisherman."}), null);
+    assert.equal(detectCardHistory({name: "Mara", scenario: "Mara, a married woman, invites you into her kitchen."}), null);
+    assert.equal(detectCardHistory({name: "Mara", description: "Mara was abandoned as a child and now guards you on the road."}), null);
+    assert.equal(detectCardHistory({name: "Mara", scenario: "You are her best friend's boyfriend."}), null);
+    assert.equal(detectCardHistory({name: "Mara", scenario: "Mara is your wife."})?.kind, "partners");
+    assert.equal(detectCardHistory({name: "Mara", scenario: "You are her best friend."})?.kind, "childhood_friends");
+    assert.equal(detectCardHistory({name: "Mara", description: "Years ago Mara cheated on you."})?.scar?.event, "betrayal");
+    assert.equal(detectCardHistory({name: "Mara", description: "Mara broke up with you last year."})?.kind, "ex_lovers");
+    assert.equal(detectCardHistory({name: "Mara", description: "Mara broke up with her fiancé last year."}), null);
+    assert.equal(detectCardHistory({name: "Mara", description: "Mara and Sam are married."}, {userName: "Sam"})?.kind, "partners");
+    // "ex-boyfriend" also contains "boyfriend"; ex-lovers is listed first.
+    assert.equal(detectCardHistory({name: "Mara", scenario: "You are Mara's ex-boyfriend."})?.kind, "ex_lovers");
+    assert.equal(detectCardHistory({name: "Mara", scenario: "You and Mara grew up together."})?.proximity, "Nearby");
+    assert.equal(detectCardHistory({name: "Mara", scenario: "You and Mara are rivals at the academy."})?.scar?.event, "conflict");
+    assert.equal(detectCardHistory(null), null);
+});
+
+test("detectCardHistory: non-English packs", () => {
+    const {lexicon} = resolveLexicon([], "es");
+    const history = detectCardHistory({name: "Lucía", scenario: "{{char}} y {{user}} son exnovios que no se ven desde hace años."}, {lexicon});
+    assert.equal(history?.kind, "ex_lovers");
+    assert.equal(history?.scar?.event, "rejection");
+});
+
+test("seedFromCard: scene from the scenario and first message, beats dropped", () => {
+    const seed = seedFromCard({
+        name: "Mara",
+        scenario: "{{char}} and {{user}} are ex-lovers. It is evening at the station.",
+        first_message: "Rain drums overhead. Mara looks up at you. \"Why are you here?\"",
+    }, {cast: ["Mara"]});
+    assert.equal(seed.scene?.location, "station");
+    assert.equal(seed.scene?.timeOfDay, "evening");
+    assert.equal(seed.scene?.environment?.weather, "rain");
+    assert.equal(seed.scene?.unresolvedBeats, undefined);
+    assert.equal(seed.history?.kind, "ex_lovers");
+
+    // History alone says nothing about the scene.
+    const historyOnly = seedFromCard({name: "Mara", scenario: "{{char}} and {{user}} are ex-lovers who haven't spoken in three years."});
+    assert.equal(historyOnly.scene, null);
+    assert.equal(historyOnly.history?.kind, "ex_lovers");
+    assert.deepEqual(seedFromCard({name: "Mara"}), {scene: null, history: null});
+    assert.deepEqual(seedFromCard(null), {scene: null, history: null});
+});
@@ -0,0 +1,46 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {applyCommandOverrides, parseRealismCommands} from "../src/commands";
+import {DEFAULT_CONFIG} from "../src/config_schema";
+
+test("parseRealismCommands: extracts blocks, splits on semicolons and strips them from the message", () => {
+    const {commands, errors, stripped} = parseRealismCommands(
+        "She waits by the door. ((realism: phase Charged; mute whiplash)) ((Realism: strictness 3))\nHe nods.",
+    );
+    assert.deepEqual(commands, [
+        {kind: "phase", phase: "Charged"},
+        {kind: "mute", detector: "emotion"},
+        {kind: "strictness", level: 3},
+    ]);
+    assert.deepEqual(errors, []);
+    assert.equal(stripped, "She waits by the door.\nHe nods.");
+});
+
+test("parseRealismCommands: reports unknown commands and leaves plain messages untouched", () => {
+    const parsed = parseRealismCommands("((realism: strictness 9; resolve all beats; dance))");
+    assert.deepEqual(parsed.commands, [{kind: "resolve_beat", all: true}]);
+    assert.deepEqual(parsed.errors, ['unknown realism command "strictness 9"', 'unknown realism command "dance"']);
+    assert.equal(parsed.stripped, "");
+    assert.equal(parseRealismCommands("((just an aside))").stripped, "((just an aside))");
+});
+
+test("applyCommandOverrides: strictness and muted detectors override config", () => {
+    const config = applyCommandOverrides(DEFAULT_CONFIG, {strictness: 1, muted: ["subtext", "beats"]});
+    assert.equal(config.strictness, 1);
+    assert.equal(config.note_subtext, false);
+    assert.equal(config.note_unresolved_beats, false);
+    assert.equal(config.note_drift, true);
+    assert.equal(applyCommandOverrides(DEFAULT_CONFIG, null), DEFAULT_CONFIG);
+});
+
+test("parseRealismCommands: limit and unlimit take a level, a topic and an optional gate", () => {
+    const {commands, errors} = parseRealismCommands("((realism: limit hard no kissing before phase Charged; limit soft jealousy plots; unlimit all; limit maybe kissing))");
+    assert.deepEqual(commands, [
+        {kind: "limit", level: "hard", topic: "kissing", before: "Charged"},
+        {kind: "limit", level: "soft", topic: "jealousy"},
+        {kind: "unlimit", topic: null},
+    ]);
+    assert.deepEqual(errors, ['unknown realism command "limit maybe kissing"']);
+    const config = applyCommandOverrides(DEFAULT_CONFIG, {boundaries: [{topic: "kissing", level: "hard"}]});
+    assert.deepEqual(config.boundaries, [{topic: "kissing", level: "hard"}]);
+});
@@ -1,6 +1,6 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import {DEFAULT_CONFIG, normalizeConfig} from "../src/config_schema";
+import {DEFAULT_CONFIG, normalizeConfig, validateConfig} from "../src/config_schema";
 
 test("normalizeConfig: null -> defaults", () => {
     assert.deepEqual(normalizeConfig(null), DEFAULT_CONFIG);
@@ -78,3 +78,33 @@ test("normalizeConfig: clamps unresolved beat fields", () => {
     assert.equal(normalized.tune_unresolved_beat_score_threshold, 20);
     assert.equal(normalized.tune_unresolved_beat_cooldown_turns, 0);
 });
+
+test("normalizeConfig: keeps lexicon pack objects and drops junk", () => {
+    const pack = {schemaVersion: 1, id: "office", version: "1.0.0"};
+    const normalized = normalizeConfig({lexicon_packs: [pack, "nope", null, [1]]});
+    assert.deepEqual(normalized.lexicon_packs, [pack]);
+    assert.deepEqual(normalizeConfig({lexicon_packs: "nope" as any}).lexicon_packs, []);
+});
+
+test("normalizeConfig: language accepts auto or a supported code", () => {
+    assert.equal(normalizeConfig({language: "ES" as any}).language, "es");
+    assert.equal(normalizeConfig({language: "klingon" as any}).language, "auto");
+    assert.equal(normalizeConfig(null).language, "auto");
+});
+
+test("normalizeConfig: relationship ladder id and custom ladder objects", () => {
+    const ladder = {id: "second_chance", phases: ["Estranged", "Cordial", "Intimate"]};
+    const normalized = normalizeConfig({relationship_ladder: " second_chance ", relationship_ladders: [ladder, "nope", [1]]});
+    assert.equal(normalized.relationship_ladder, "second_chance");
+    assert.deepEqual(normalized.relationship_ladders, [ladder]);
+    assert.equal(normalizeConfig({relationship_ladder: "" as any}).relationship_ladder, "slow_burn");
+    assert.deepEqual(validateConfig({relationship_ladders: "nope" as any}), ['`relationship_ladders` must be an array of ladder objects.']);
+});
+
+test("normalizeConfig: content_rating accepts loose spellings and falls back to unrestricted", () => {
+    assert.equal(normalizeConfig({content_rating: "pg13"}).content_rating, "PG-13");
+    assert.equal(normalizeConfig({content_rating: " g "}).content_rating, "G");
+    assert.equal(normalizeConfig({content_rating: "NC-17"}).content_rating, "unrestricted");
+    assert.equal(normalizeConfig(null).content_rating, "unrestricted");
+    assert.deepEqual(validateConfig({content_rating: "NC-17"}), ['`content_rating` must be one of: G, PG, PG-13, R, unrestricted.']);
+});
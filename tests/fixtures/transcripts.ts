@@ -1,6 +1,8 @@
 export type Transcript = {
     name: string;
     botTurns: string[];
+    // Optional user turns, interleaved before the matching bot turn.
+    userTurns?: string[];
 };
 
 export const transcripts: Record<string, Transcript> = {
@@ -46,4 +48,20 @@ export const transcripts: Record<string, Transcript> = {
             "Later, he smiles softly and kisses you on the lips.",
         ],
     },
+    user_led_proximity: {
+        name: "user_led_proximity",
+        userTurns: [
+            "I step closer to you, smiling.",
+        ],
+        botTurns: [
+            "She takes your hand, fingers warm.",
+        ],
+    },
+    regression_after_rejection: {
+        name: "regression_after_rejection",
+        botTurns: [
+            "She steps back. \"I can't be with you.\" She turns you down gently.",
+            "\"I love you,\" she whispers, and kisses you on the lips.",
+        ],
+    },
 };
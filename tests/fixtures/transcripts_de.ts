@@ -0,0 +1,38 @@
+import type {Transcript} from "./transcripts";
+
+// German counterparts of the core fixtures (see `src/lexicons/de.json`).
+export const transcripts_de: Record<string, Transcript> = {
+    whiplash_spike: {
+        name: "whiplash_spike",
+        botTurns: [
+            "Sie lächelt sanft, mit Wärme in den Augen. „Ich bin froh, dass du da bist.“",
+            "Sie lächelt weiter, die Stimme sanft und liebevoll, ganz nah bei dir.",
+            "Sie lächelt zärtlich und greift nach deiner Hand.",
+            "Ihr Lächeln verschwindet! Sie bricht schluchzend zusammen, verzweifelt und zitternd. Sie kann nicht aufhören!",
+        ],
+    },
+    scene_persistence: {
+        name: "scene_persistence",
+        botTurns: [
+            "In der Küche, in der Nacht, ist das Licht gedämpft und die Stimmung angespannt.",
+        ],
+    },
+    phase_and_proximity_skip: {
+        name: "phase_and_proximity_skip",
+        botTurns: [
+            "Er küsst dich auf die Lippen und zieht dich in eine feste Umarmung.",
+        ],
+    },
+    consent_coercion: {
+        name: "consent_coercion",
+        botTurns: [
+            "Er packt dich am Arm und zwingt dich zu bleiben, gegen deinen Willen.",
+        ],
+    },
+    negated_anger: {
+        name: "negated_anger",
+        botTurns: [
+            "Er ist nicht wütend, nur müde.",
+        ],
+    },
+};
@@ -0,0 +1,38 @@
+import type {Transcript} from "./transcripts";
+
+// Spanish counterparts of the core fixtures (see `src/lexicons/es.json`).
+export const transcripts_es: Record<string, Transcript> = {
+    whiplash_spike: {
+        name: "whiplash_spike",
+        botTurns: [
+            "Ella sonríe con ternura y te mira con cariño. \"Me alegra que estés aquí.\"",
+            "Sigue sonriendo, con la voz dulce y tierna, muy cerca de ti.",
+            "Vuelve a sonreír con cariño mientras busca tu mano.",
+            "¡Su sonrisa desaparece! Se derrumba sollozando, devastada y temblando. ¡No puede parar!",
+        ],
+    },
+    scene_persistence: {
+        name: "scene_persistence",
+        botTurns: [
+            "En la cocina, por la noche, las luces están bajas y el ambiente es tenso.",
+        ],
+    },
+    phase_and_proximity_skip: {
+        name: "phase_and_proximity_skip",
+        botTurns: [
+            "Te besa en los labios y te atrae hacia un abrazo apretado.",
+        ],
+    },
+    consent_coercion: {
+        name: "consent_coercion",
+        botTurns: [
+            "Te agarra del brazo y te obliga a quedarte, contra tu voluntad.",
+        ],
+    },
+    negated_anger: {
+        name: "negated_anger",
+        botTurns: [
+            "No está enfadado, solo cansado.",
+        ],
+    },
+};
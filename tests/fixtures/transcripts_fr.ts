@@ -0,0 +1,38 @@
+import type {Transcript} from "./transcripts";
+
+// French counterparts of the core fixtures (see `src/lexicons/fr.json`).
+export const transcripts_fr: Record<string, Transcript> = {
+    whiplash_spike: {
+        name: "whiplash_spike",
+        botTurns: [
+            "Elle sourit tendrement, les yeux pleins de chaleur. « Je suis contente que tu sois là. »",
+            "Elle sourit encore, la voix douce et tendre, tout près de toi.",
+            "Elle sourit avec tendresse et cherche ta main.",
+            "Son sourire disparaît ! Elle s'effondre, sanglotant, dévastée et tremblante. Elle ne peut pas s'arrêter !",
+        ],
+    },
+    scene_persistence: {
+        name: "scene_persistence",
+        botTurns: [
+            "Dans la cuisine, la nuit, les lumières sont basses et l'ambiance est tendue.",
+        ],
+    },
+    phase_and_proximity_skip: {
+        name: "phase_and_proximity_skip",
+        botTurns: [
+            "Il t'embrasse sur les lèvres et t'enlace avec force.",
+        ],
+    },
+    consent_coercion: {
+        name: "consent_coercion",
+        botTurns: [
+            "Il t'attrape par le bras et te force à rester, contre ta volonté.",
+        ],
+    },
+    negated_anger: {
+        name: "negated_anger",
+        botTurns: [
+            "Il n'est pas en colère, juste fatigué.",
+        ],
+    },
+};
@@ -0,0 +1,38 @@
+import type {Transcript} from "./transcripts";
+
+// Portuguese counterparts of the core fixtures (see `src/lexicons/pt.json`).
+export const transcripts_pt: Record<string, Transcript> = {
+    whiplash_spike: {
+        name: "whiplash_spike",
+        botTurns: [
+            "Ela sorri com ternura, com carinho no olhar. \"Que bom que você está aqui.\"",
+            "Ela continua sorrindo, com a voz suave e terna, bem perto de você.",
+            "Ela sorri com carinho e procura a sua mão.",
+            "O sorriso some! Ela desaba soluçando, devastada e tremendo. Ela não consegue parar!",
+        ],
+    },
+    scene_persistence: {
+        name: "scene_persistence",
+        botTurns: [
+            "Na cozinha, à noite, as luzes estão baixas e o clima é tenso.",
+        ],
+    },
+    phase_and_proximity_skip: {
+        name: "phase_and_proximity_skip",
+        botTurns: [
+            "Ele te beija nos lábios e te puxa para um abraço apertado.",
+        ],
+    },
+    consent_coercion: {
+        name: "consent_coercion",
+        botTurns: [
+            "Ele te agarra pelo braço e te obriga a ficar, contra a sua vontade.",
+        ],
+    },
+    negated_anger: {
+        name: "negated_anger",
+        botTurns: [
+            "Ele não está com raiva, só cansado.",
+        ],
+    },
+};
@@ -0,0 +1,92 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {BUILTIN_LADDERS, formatSkipWarning, ladderPhaseFor, normalizeLadder, resolveLadder} from "../src/ladders";
+import {detectDrift, detectPostRegressionCarryOn, evaluatePhaseRegression} from "../src/analysis_helpers";
+
+const SECOND_CHANCE = {
+    id: "second_chance",
+    name: "Second chance",
+    phases: ["Estranged", "Cordial", "Reopened", "Intimate"],
+    corePhases: {Neutral: "Estranged", Familiar: "Cordial", Charged: "Reopened"},
+    skipWarning: "{ladder}: {phase} → {target}{missing} skips the reckoning.",
+};
+
+test("resolveLadder: built-ins, custom ladders and unknown ids", () => {
+    assert.equal(resolveLadder(undefined, []).ladder, BUILTIN_LADDERS.slow_burn);
+    assert.equal(resolveLadder("enemies_to_lovers", []).ladder.phases[0], "Hostile");
+
+    const custom = resolveLadder("second_chance", [SECOND_CHANCE]);
+    assert.deepEqual(custom.errors, []);
+    assert.deepEqual(custom.ladder.phases, SECOND_CHANCE.phases);
+
+    const unknown = resolveLadder("fake_dating", [SECOND_CHANCE]);
+    assert.equal(unknown.ladder, BUILTIN_LADDERS.slow_burn);
+    assert.match(unknown.errors[0], /unknown relationship ladder "fake_dating"/);
+});
+
+test("normalizeLadder: rejects short ladders and rung maps pointing off the ladder", () => {
+    const errors: string[] = [];
+    assert.equal(normalizeLadder({id: "tiny", phases: ["Only"]}, "ladder #0", errors), null);
+    const ladder = normalizeLadder({
+        id: "odd",
+        phases: ["A", "B", "B", "C"],
+        signalPhases: {love_confession: "Z"},
+        minDwell: {A: {turns: 2.5}, B: {minutes: -1}, Q: {turns: 1}},
+    }, "ladder #1", errors);
+    assert.deepEqual(ladder?.phases, ["A", "B", "C"]);
+    assert.deepEqual(ladder?.signalPhases, {});
+    assert.deepEqual(ladder?.minDwell, {A: {turns: 2, minutes: undefined}});
+    assert.equal(errors.length, 4);
+    assert.match(errors[1], /"Z" is not a rung/);
+    assert.match(errors[2], /B: needs positive/);
+    assert.match(errors[3], /Q: not a rung/);
+});
+
+test("ladderPhaseFor: signal types, core phases, shared names and scaled positions", () => {
+    const enemies = BUILTIN_LADDERS.enemies_to_lovers;
+    assert.equal(ladderPhaseFor(enemies, {type: "attraction_language", suggestedPhase: "Familiar"}), "Rivals");
+    assert.equal(ladderPhaseFor(enemies, {type: "anticipation", anticipates: "attraction_language", suggestedPhase: "Familiar"}), "Rivals");
+    assert.equal(ladderPhaseFor(enemies, {type: "casual_talk", suggestedPhase: "Familiar"}), "Grudging");
+    assert.equal(ladderPhaseFor(enemies, {type: "physical_intimacy", suggestedPhase: "Intimate"}), "Intimate");
+    const scaled = {id: "three", phases: ["Low", "Mid", "High"]};
+    assert.equal(ladderPhaseFor(scaled, {type: "x", suggestedPhase: "Charged"}), "Mid");
+    assert.equal(ladderPhaseFor(scaled, {type: "x", suggestedPhase: "Intimate"}), "High");
+});
+
+test("formatSkipWarning and the phase helpers follow the ladder", () => {
+    const ladder = resolveLadder("second_chance", [SECOND_CHANCE]).ladder;
+    assert.equal(
+        formatSkipWarning(ladder, {phase: "Estranged", target: "Intimate", missing: ["Cordial", "Reopened"]}),
+        "Second chance: Estranged → Intimate (missing: Cordial → Reopened) skips the reckoning.",
+    );
+
+    const regression = evaluatePhaseRegression({
+        phase: "Reopened",
+        content: "She steps back. \"We shouldn't do this. I need space.\"",
+        scarEvents: [],
+        recentEmotions: [],
+        turnsSinceSignal: 0,
+        ladder,
+    });
+    assert.equal(regression.regressed, true);
+    assert.ok(ladder.phases.includes(regression.next));
+
+    const carryOn = detectPostRegressionCarryOn({
+        regression: {from: "Reopened", to: "Cordial", turn: 1, reasons: ["distancing"]},
+        content: "He kisses her.",
+        signals: [{type: "physical_intimacy", suggestedPhase: "Intimate", weight: 3} as any],
+        ladder,
+    });
+    assert.match(carryOn.note || "", /old Reopened level/);
+
+    const drift = detectDrift({
+        recentEmotions: Array(6).fill({tone: "neutral", intensity: "low"}),
+        phaseHistory: [{phase: "Cordial", at: 1}, {phase: "Cordial", at: 2}],
+        strictness: 3,
+        turnIndex: 12,
+        driftNotes: [],
+        phase: "Cordial",
+        ladder,
+    });
+    assert.match(drift || "", /new beat toward Reopened/);
+});
@@ -0,0 +1,157 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {BUILTIN_LEXICON_PACKS, DEFAULT_LEXICON, compileLexiconPacks, detectLanguage, resolveLexicon, type LexiconLanguage} from "../src/lexicon";
+import {
+    detectConsentIssues,
+    detectEscalationSignals,
+    extractEmotionSnapshot,
+    maskRecollections,
+    scoreConsentIssues,
+    updateSceneFromMessage,
+} from "../src/analysis_helpers";
+import type {Transcript} from "./fixtures/transcripts";
+import {transcripts_de} from "./fixtures/transcripts_de";
+import {transcripts_es} from "./fixtures/transcripts_es";
+import {transcripts_fr} from "./fixtures/transcripts_fr";
+import {transcripts_pt} from "./fixtures/transcripts_pt";
+
+const FANTASY_PACK = {
+    schemaVersion: 1,
+    id: "fantasy",
+    version: "0.1.0",
+    tones: {
+        affection: {patterns: [{label: "courtly", terms: ["swoons", "my liege"], weight: 2}]},
+        awed: {minScore: 2, patterns: [{label: "wonder", pattern: "\\b(awestruck|spellbound)\\b", weight: 2}]},
+    },
+    escalation: [
+        {type: "oath_of_fealty", suggestedPhase: "Charged", pattern: "\\bswears? (?:an|their) oath\\b", weight: 2},
+    ],
+    scene: {placeHeads: ["tavern", "great hall"], stopwords: ["aether"]},
+};
+
+test("DEFAULT_LEXICON: built-in pack compiles tones, escalation, consent and scene lists", () => {
+    assert.deepEqual(DEFAULT_LEXICON.packIds, ["en-core@1.22.0"]);
+    assert.deepEqual(DEFAULT_LEXICON.tones.map((t) => t.tone), ["affection", "angry", "anxious", "sad", "embarrassed", "jealous", "excited", "tense"]);
+    assert.ok(DEFAULT_LEXICON.escalation.some((e) => e.type === "love_confession"));
+    assert.ok(DEFAULT_LEXICON.placeHeads.includes("kitchen"));
+    assert.ok(DEFAULT_LEXICON.stopwords.includes("eyes"));
+});
+
+test("compileLexiconPacks: domain packs extend tones, escalation and place heads", () => {
+    const {lexicon, errors} = compileLexiconPacks([BUILTIN_LEXICON_PACKS.en, FANTASY_PACK]);
+    assert.deepEqual(errors, []);
+
+    assert.equal(extractEmotionSnapshot("She swoons.", {lexicon}).tone, "affection");
+    assert.equal(extractEmotionSnapshot("She swoons.").tone, "neutral");
+    assert.equal(extractEmotionSnapshot("He stands spellbound.", {lexicon}).tone, "awed");
+
+    const signals = detectEscalationSignals("He swears an oath to protect you.", {tone: "neutral", intensity: "low"}, lexicon);
+    assert.deepEqual(signals.map((s) => s.type), ["oath_of_fealty"]);
+
+    const scene = updateSceneFromMessage(null, "They drink at tavern.", {tone: "neutral", intensity: "low"}, {lexicon});
+    assert.equal(scene.location, "tavern");
+});
+
+test("compileLexiconPacks: reports bad schema versions and invalid patterns without dropping valid ones", () => {
+    const {lexicon, errors} = compileLexiconPacks([
+        {schemaVersion: 99, id: "future"},
+        {
+            schemaVersion: 1,
+            id: "broken",
+            version: "1",
+            tones: {sad: {patterns: [{label: "bad", pattern: "(unclosed"}, {label: "ok", terms: ["melancholy"], weight: 2}]}},
+            escalation: [{type: "nope", suggestedPhase: "Married", pattern: "x"}],
+        },
+    ]);
+    assert.equal(errors.length, 3);
+    assert.match(errors[0], /unsupported schemaVersion/);
+    assert.match(errors[1], /invalid pattern/);
+    assert.match(errors[2], /suggestedPhase/);
+    assert.deepEqual(lexicon.packIds, ["broken@1"]);
+    assert.equal(lexicon.tones[0].patterns.length, 1);
+});
+
+test("resolveLexicon: no packs reuses the built-in lexicon; packs are cached by content", () => {
+    assert.equal(resolveLexicon([]).lexicon, DEFAULT_LEXICON);
+    const a = resolveLexicon([FANTASY_PACK]);
+    const b = resolveLexicon([JSON.parse(JSON.stringify(FANTASY_PACK))]);
+    assert.equal(a.lexicon, b.lexicon);
+    assert.ok(a.lexicon.placeHeads.includes("great hall"));
+});
+
+test("scoreConsentIssues: weights and critical flags come from the pack", () => {
+    const issues = detectConsentIssues("He grabs you and pins you to the wall.");
+    assert.deepEqual(scoreConsentIssues(issues), {score: 7, critical: true});
+    assert.deepEqual(scoreConsentIssues(["assigns emotions to the user"]), {score: 2, critical: false});
+});
+
+const LOCALIZED: Array<[LexiconLanguage, Record<string, Transcript>, string]> = [
+    ["es", transcripts_es, "cocina"],
+    ["fr", transcripts_fr, "cuisine"],
+    ["de", transcripts_de, "Küche"],
+    ["pt", transcripts_pt, "cozinha"],
+];
+
+for (const [language, fixtures, kitchen] of LOCALIZED) {
+    test(`${language} lexicon: detection, emotion, negation, escalation, consent and scene`, () => {
+        const {lexicon, errors} = resolveLexicon([], language);
+        assert.deepEqual(errors, []);
+        assert.equal(lexicon.language, language);
+        for (const turn of fixtures.whiplash_spike.botTurns) assert.equal(detectLanguage(turn), language);
+
+        const warm = extractEmotionSnapshot(fixtures.whiplash_spike.botTurns[0], {lexicon});
+        assert.equal(warm.tone, "affection");
+        const spike = extractEmotionSnapshot(fixtures.whiplash_spike.botTurns[3], {lexicon});
+        assert.deepEqual([spike.tone, spike.intensity], ["sad", "high"]);
+        assert.equal(extractEmotionSnapshot(fixtures.negated_anger.botTurns[0], {lexicon}).tone, "neutral");
+
+        const signals = detectEscalationSignals(fixtures.phase_and_proximity_skip.botTurns[0], warm, lexicon).map((s) => s.type);
+        assert.ok(signals.includes("physical_intimacy"));
+        assert.ok(signals.includes("physical_closeness"));
+
+        const issues = detectConsentIssues(fixtures.consent_coercion.botTurns[0], lexicon);
+        assert.ok(issues.includes("coercive physical action"));
+        assert.ok(issues.includes("forces decisions/consent onto the user"));
+        assert.equal(scoreConsentIssues(issues, lexicon).critical, true);
+
+        const scene = updateSceneFromMessage(null, fixtures.scene_persistence.botTurns[0], {tone: "tense", intensity: "low"}, {lexicon});
+        assert.equal(scene.location, kitchen);
+        assert.ok(scene.timeOfDay);
+    });
+}
+
+const HYPOTHETICAL_CONFESSION: Record<Exclude<LexiconLanguage, "en">, string> = {
+    es: "Tal vez algún día le dirá te amo.",
+    fr: "Peut-être qu'un jour il dira je t'aime.",
+    de: "Vielleicht sagt er eines Tages ich liebe dich.",
+    pt: "Talvez um dia ele diga te amo.",
+};
+
+test("modality cues: hypothetical confessions are anticipation in every language pack", () => {
+    for (const [language, text] of Object.entries(HYPOTHETICAL_CONFESSION)) {
+        const {lexicon} = resolveLexicon([], language as LexiconLanguage);
+        const signals = detectEscalationSignals(text, extractEmotionSnapshot(text, {lexicon}), lexicon);
+        assert.deepEqual(signals.map((s) => [s.type, s.anticipates]), [["anticipation", "love_confession"]], language);
+    }
+});
+
+const RECALLED_KISS: Record<Exclude<LexiconLanguage, "en">, string> = {
+    es: "Ella recuerda aquella noche en la playa.",
+    fr: "Elle se souvient de cette nuit sur la plage.",
+    de: "Sie erinnert sich an die Nacht am Strand.",
+    pt: "Ela lembra daquela noite na praia.",
+};
+
+test("recollection cues: flashbacks are masked in every language pack", () => {
+    for (const [language, text] of Object.entries(RECALLED_KISS)) {
+        const {lexicon} = resolveLexicon([], language as LexiconLanguage);
+        const {spans} = maskRecollections(text, lexicon);
+        assert.equal(spans.length, 1, language);
+        assert.equal(updateSceneFromMessage(null, text, {tone: "sad", intensity: "low"}, {lexicon}).location, undefined, language);
+    }
+});
+
+test("detectLanguage: English and ambiguous text", () => {
+    assert.equal(detectLanguage("He smiles and takes her hand, glad that she is here."), "en");
+    assert.equal(detectLanguage("*nods*"), null);
+});
@@ -0,0 +1,25 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {BUILTIN_LADDERS} from "../src/ladders";
+import {ceilingPhaseIndex, clampProximity, nearCeiling, ratingBoundaries, ratingCeiling} from "../src/ratings";
+
+test("ratingCeiling: caps map onto the active ladder; unrestricted has none", () => {
+    assert.equal(ratingCeiling("unrestricted"), null);
+    const pg13 = ratingCeiling("PG-13")!;
+    assert.equal(BUILTIN_LADDERS.slow_burn.phases[ceilingPhaseIndex(pg13, BUILTIN_LADDERS.slow_burn)], "Charged");
+    const g = ratingCeiling("G")!;
+    assert.equal(BUILTIN_LADDERS.enemies_to_lovers.phases[ceilingPhaseIndex(g, BUILTIN_LADDERS.enemies_to_lovers)], "Grudging");
+    assert.equal(clampProximity("Intimate", pg13), "Touching");
+    assert.equal(clampProximity("Nearby", pg13), "Nearby");
+    assert.equal(clampProximity("Intimate", null), "Intimate");
+    assert.deepEqual(ratingBoundaries(g).map((b) => [b.topic, b.level]), [["kissing", "hard"], ["sexual_content", "hard"], ["violence", "hard"]]);
+});
+
+test("nearCeiling: within one step of the phase or proximity cap", () => {
+    const pg13 = ratingCeiling("PG-13")!;
+    const ladder = BUILTIN_LADDERS.slow_burn;
+    assert.equal(nearCeiling(pg13, {phase: "Neutral", proximity: "Distant", ladder}), false);
+    assert.equal(nearCeiling(pg13, {phase: "Familiar", proximity: "Distant", ladder}), true);
+    assert.equal(nearCeiling(pg13, {phase: "Neutral", proximity: "Nearby", ladder}), true);
+    assert.equal(nearCeiling(ratingCeiling("R")!, {phase: "Familiar", proximity: "Nearby", ladder}), false);
+});
@@ -1,24 +1,58 @@
 import test from "node:test";
 import assert from "node:assert/strict";
 import {
+    advanceTimeline,
+    analyzeUserMessage,
+    blendOverlap,
+    createEmotionBaseline,
+    createRelationshipAxes,
+    describeObjectConflict,
+    describePhysicalState,
+    describeRushedPhase,
+    detectAxisMismatch,
     detectConsentIssues,
+    detectDrift,
     detectEscalationSignals,
     detectMemoryEvents,
+    detectStopIntent,
+    detectPostRegressionCarryOn,
+    emotionVad,
     evaluateEmotionalDelta,
+    evaluatePhasePacing,
+    evaluatePhaseRegression,
     evaluateProximityTransition,
     extractEmotionSnapshot,
+    maskRecollections,
+    modalityAt,
+    recollectionCallbacks,
     scoreSilenceOrPause,
+    scoreUnresolvedBeatReminder,
+    seedEmotionBaseline,
+    storyTimeAdvance,
+    summarizeScene,
+    updateEmotionBaseline,
+    updateEnvironment,
+    updateObjectLedger,
+    updatePhysicalState,
+    updateRelationshipAxes,
     updateSceneFromMessage,
+    updateScenePresence,
+    type EmotionBaseline,
+    type EmotionSnapshot,
 } from "../src/analysis_helpers";
+import {resolveLexicon} from "../src/lexicon";
+import {BUILTIN_LADDERS} from "../src/ladders";
+
+const discrete = (s: EmotionSnapshot) => ({tone: s.tone, intensity: s.intensity});
 
 test("extractEmotionSnapshot: empty -> neutral/low", () => {
     const snapshot = extractEmotionSnapshot("");
-    assert.deepEqual(snapshot, {tone: "neutral", intensity: "low"});
+    assert.deepEqual(snapshot, {tone: "neutral", intensity: "low", valence: 0, arousal: 0, dominance: 0, secondaryTone: null, mix: 1});
 });
 
 test("extractEmotionSnapshot: sad keyword -> sad/medium", () => {
     const snapshot = extractEmotionSnapshot("I regret this.");
-    assert.deepEqual(snapshot, {tone: "sad", intensity: "medium"});
+    assert.deepEqual(discrete(snapshot), {tone: "sad", intensity: "medium"});
 });
 
 test("extractEmotionSnapshot: negation avoids angry classification", () => {
@@ -44,7 +78,7 @@ test("extractEmotionSnapshot: extra term tuning expands coverage", () => {
 
 test("extractEmotionSnapshot: affection keyword -> affection/medium", () => {
     const snapshot = extractEmotionSnapshot("I love you");
-    assert.deepEqual(snapshot, {tone: "affection", intensity: "medium"});
+    assert.deepEqual(discrete(snapshot), {tone: "affection", intensity: "medium"});
 });
 
 test("evaluateEmotionalDelta: detects tone + intensity change after steady window", () => {
@@ -105,7 +139,7 @@ test("extractEmotionSnapshot: sigh defaults to tense, not sad", () => {
 
 test("extractEmotionSnapshot: smile alone stays low intensity", () => {
     const snapshot = extractEmotionSnapshot("He smiles.");
-    assert.deepEqual(snapshot, {tone: "affection", intensity: "low"});
+    assert.deepEqual(discrete(snapshot), {tone: "affection", intensity: "low"});
 });
 
 test("evaluateProximityTransition: detects skipped steps", () => {
@@ -196,6 +230,177 @@ test("updateSceneFromMessage: keeps location when phrased as 'in the kitchen is'
     assert.equal(scene.location, "kitchen");
 });
 
+test("updateSceneFromMessage: location history records what explained each move", () => {
+    const calm = {tone: "neutral", intensity: "low"} as const;
+    const kitchen = updateSceneFromMessage(null, "In the kitchen, she pours two cups of tea.", calm);
+    assert.deepEqual(kitchen.locationHistory?.map((e) => [e.location, e.from, e.via]), [["kitchen", undefined, undefined]]);
+
+    const jumped = updateSceneFromMessage(kitchen, "On the rooftop, the wind tugs at her hair.", calm);
+    assert.deepEqual(jumped.locationHistory?.slice(-1).map((e) => [e.location, e.from, e.via]), [["rooftop", "kitchen", null]]);
+
+    const walked = updateSceneFromMessage(kitchen, "She walks up the stairs. On the rooftop, the wind tugs at her hair.", calm);
+    assert.equal(walked.locationHistory?.slice(-1)[0].via, "walks");
+    const skipped = updateSceneFromMessage(kitchen, "The next morning, on the rooftop, she waits.", calm);
+    assert.equal(skipped.locationHistory?.slice(-1)[0].via, "time skip");
+    const hinted = updateSceneFromMessage(kitchen, "On the rooftop, the wind tugs at her hair.", calm, {travelHint: "head up"});
+    assert.equal(hinted.locationHistory?.slice(-1)[0].via, "head up");
+
+    const stayed = updateSceneFromMessage(kitchen, "In the kitchen, the kettle whistles.", calm);
+    assert.equal(stayed.locationHistory?.length, 1);
+});
+
+test("advanceTimeline: counts days from skips and sleep, and flags the clock running backwards", () => {
+    const night = advanceTimeline(null, "It is almost midnight when the rain starts.");
+    assert.deepEqual(night, {day: 1, daypart: "late_night", regression: null});
+
+    assert.deepEqual(advanceTimeline(night, "The afternoon sun is hot on the patio."), {
+        day: 1,
+        daypart: "afternoon",
+        regression: {from: "late_night", to: "afternoon", day: 1},
+    });
+    assert.equal(advanceTimeline(night, "She wakes up late; the afternoon sun is hot.").day, 2);
+    assert.equal(advanceTimeline(night, "Hours later, the afternoon sun is hot.").day, 2);
+    assert.equal(advanceTimeline(night, "At dawn the birds start up.").day, 2);
+    assert.deepEqual(advanceTimeline(night, "Three days later, he calls."), {day: 4, regression: null});
+    assert.equal(advanceTimeline({day: 1, daypart: "morning"}, "By evening they are still talking.").regression, null);
+    assert.equal(advanceTimeline(night, "She remembers the afternoon they met.").regression, null);
+    assert.equal(advanceTimeline({day: 1, daypart: "evening"}, "It's three in the morning.").daypart, "late_night");
+});
+
+test("summarizeScene: shows the day counter with the time of day", () => {
+    const calm = {tone: "neutral", intensity: "low"} as const;
+    const first = updateSceneFromMessage(null, "In the kitchen at midnight, she pours tea.", calm);
+    const next = updateSceneFromMessage(first, "The next morning, the kitchen smells of coffee.", calm);
+    assert.equal(summarizeScene(first), "loc: kitchen · time: midnight, day 1 · env: indoors");
+    assert.equal(summarizeScene(next), "loc: kitchen · time: morning, day 2 · env: indoors");
+});
+
+test("updateScenePresence: entrances and exits move the cast, and absent characters acting are flagged", () => {
+    const names = ["Mara Quinn", "Jun"];
+    const start = updateScenePresence(null, "Mara pours the tea while Jun reads.", names);
+    assert.deepEqual(start, {present: ["Mara Quinn", "Jun"], absent: []});
+    const gone = updateScenePresence(start, "\"I'll call you,\" Jun says, and then he hangs up. Mara sighs.", names);
+    assert.deepEqual(gone, {present: ["Mara Quinn"], absent: ["Jun"]});
+    assert.deepEqual(updateScenePresence(gone, "\"Still here,\" Jun mutters from the couch.", names).actedWhileAbsent, ["Jun"]);
+    assert.equal(updateScenePresence(gone, "Mara remembers how Jun laughed. Jun's mug is still on the table.", names).actedWhileAbsent, undefined);
+    assert.deepEqual(updateScenePresence(gone, "Jun walks in, shaking off the rain. Jun grins.", names), {present: ["Mara Quinn", "Jun"], absent: []});
+    const calm = {tone: "neutral", intensity: "low"} as const;
+    const scene = updateSceneFromMessage({cast: gone}, "In the kitchen, Mara stirs her tea.", calm, {cast: names});
+    assert.equal(summarizeScene(scene), "loc: kitchen · cast: Mara Quinn (away: Jun) · time: day 1 · env: indoors");
+    // In a one-on-one chat the cast only shows once the character has stepped out.
+    assert.equal(summarizeScene({cast: {present: ["Mara"], absent: []}}), null);
+    assert.equal(summarizeScene({cast: {present: [], absent: ["Mara"]}}), "cast: nobody (away: Mara)");
+});
+
+test("updatePhysicalState: keeps a ledger per character and reports contradictions", () => {
+    const names = ["Mara", "Jun"];
+    const first = updatePhysicalState(null, "Soaked from the rain, she shrugs off her jacket and picks up the glass. Jun sprains his ankle on the step.", {names, speaker: "Mara"});
+    assert.deepEqual(first.physical.Mara, {removed: ["jacket"], held: ["glass"], setDown: [], injuries: [], wet: true});
+    assert.deepEqual(first.physical.Jun.injuries, ["ankle"]);
+    assert.deepEqual(first.breaks, []);
+
+    const second = updatePhysicalState(first.physical, "She takes off her jacket, her dry hair falling loose. Jun lands on his ankle and grins. \"Take off your shoes,\" she says.", {names, speaker: "Mara"});
+    assert.deepEqual(second.breaks, [
+        {character: "Mara", kind: "removed_twice", item: "jacket"},
+        {character: "Mara", kind: "dry_while_wet"},
+        {character: "Jun", kind: "injury_used", item: "ankle"},
+    ]);
+    assert.equal(updatePhysicalState(first.physical, "Jun lands on his ankle and winces.", {names}).breaks.length, 0);
+    const later = updatePhysicalState(first.physical, "The next morning, she pulls on her jacket.", {names, speaker: "Mara"});
+    assert.deepEqual(later.physical.Mara, {removed: [], held: [], setDown: [], injuries: []});
+    assert.equal(describePhysicalState(first.physical.Mara), "jacket off, holding glass, wet");
+    const calm = {tone: "neutral", intensity: "low"} as const;
+    const scene = updateSceneFromMessage(null, "Jun yawns, exhausted, and cuts his hand on the glass.", calm, {cast: names, speaker: "Mara"});
+    assert.equal(summarizeScene(scene), "cast: Mara, Jun · time: day 1 · state: Jun (hurt hand, tired)");
+});
+
+test("updatePhysicalState: holding a person is not holding an object", () => {
+    for (const content of ["Mara holds her close.", "Mara lifts her up.", "Mara holds her tightly.", "Mara drops her off at the door.", "Mara lays her gently down."]) {
+        const state = updatePhysicalState(null, content, {names: ["Mara"]}).physical.Mara;
+        assert.deepEqual([state?.held || [], state?.setDown || []], [[], []], content);
+    }
+    assert.deepEqual(updatePhysicalState(null, "Mara holds her glass.", {names: ["Mara"]}).physical.Mara.held, ["glass"]);
+});
+
+test("updatePhysicalState: putting clothes back on by pronoun clears the last one taken off", () => {
+    const params = {names: ["Mara"], speaker: "Mara"};
+    const back = updatePhysicalState(null, "She takes off her glasses…, then puts them back on.", params);
+    assert.deepEqual(back.physical.Mara.removed, []);
+    assert.deepEqual(updatePhysicalState(back.physical, "She takes off her glasses again.", params).breaks, []);
+    const shelf = updatePhysicalState(null, "She takes off her glasses and puts it back on the shelf.", params);
+    assert.deepEqual(shelf.physical.Mara.removed, ["glasses"]);
+    const de = updatePhysicalState(null, "Sie nimmt ihre Brille ab. Dann setzt sie sie wieder auf.", params, resolveLexicon([], "de").lexicon);
+    assert.deepEqual(de.physical.Mara.removed, []);
+});
+
+test("updatePhysicalState: something kept in a garment is not wearing it", () => {
+    const names = ["Mara"];
+    const off = updatePhysicalState(null, "Mara shrugs off her coat and hangs it by the door.", {names}).physical;
+    assert.deepEqual(updatePhysicalState(off, "Mara digs her keys out of the pocket in her coat on the hook.", {names}).breaks, []);
+    assert.deepEqual(updatePhysicalState(off, "Mara leaves her keys in her coat pocket.", {names}).breaks, []);
+    assert.deepEqual(updatePhysicalState(off, "Still in her coat, Mara sets the kettle on.", {names}).breaks.map((b) => b.kind), ["worn_while_off"]);
+    assert.deepEqual(updatePhysicalState(off, "Mara buttons her coat against the wind.", {names}).breaks, [
+        {character: "Mara", kind: "worn_while_off", item: "coat"},
+    ]);
+});
+
+test("updateEnvironment: attributes persist until narrated, decay with time and flag contradictions", () => {
+    const first = updateEnvironment(null, "Rain drums on the roof of the candlelit cabin; she shivers in the chilly air.", {});
+    assert.deepEqual(first, {environment: {weather: "rain", lighting: "candlelit", temperature: "cold"}, conflicts: []});
+    assert.deepEqual(updateEnvironment(first.environment, "He kisses her under a clear sky.", {}).conflicts, [
+        {attribute: "weather", was: "rain", now: "clear", evidence: "clear sky"},
+    ]);
+    assert.equal(updateEnvironment(first.environment, "The rain stops; the stars overhead come out.", {}).environment.weather, "clear");
+    assert.deepEqual(updateEnvironment(first.environment, "Bright lights everywhere.", {}).conflicts.map((c) => c.attribute), ["lighting"]);
+    assert.deepEqual(updateEnvironment(first.environment, "She blows out the candles and the room is pitch-black.", {}).conflicts, []);
+    assert.deepEqual(updateEnvironment(first.environment, "The next day is sunny and sweltering.", {}).conflicts, []);
+    // A cold cabin that turns warm without the fire being lit is a contradiction; the fire makes it fair.
+    assert.deepEqual(updateEnvironment(first.environment, "She stretches out in the warm air.", {}).conflicts.map((c) => [c.attribute, c.was, c.now]), [
+        ["temperature", "cold", "warm"],
+    ]);
+    assert.deepEqual(updateEnvironment(first.environment, "She lights the fire and stretches out in the warm air.", {}).conflicts, []);
+    assert.deepEqual(updateEnvironment(first.environment, "She says nothing.", {moved: true}).environment, {weather: "rain"});
+    const calm = {tone: "neutral", intensity: "low"} as const;
+    assert.equal(summarizeScene({environment: first.environment}), "env: rain, candlelit, cold");
+    assert.equal(updateSceneFromMessage(null, "It is raining in the kitchen.", calm).environment?.setting, "indoors");
+});
+
+test("updateObjectLedger: tracks props and reports contradictions with the prior mention", () => {
+    const first = updateObjectLedger(null, "Mara locks the door and pours coffee into her cup. She sets the keys on the counter.", {turn: 3, names: ["Mara"]});
+    assert.deepEqual(first.objects.door, {turn: 3, mention: "locks the door", state: "locked"});
+    assert.equal(first.objects.cup.contents, "coffee");
+    assert.equal(first.objects.keys.location, "counter");
+    assert.deepEqual(first.conflicts, []);
+
+    const second = updateObjectLedger(first.objects, "The door swings open. She takes a sip of wine from her cup.", {turn: 5});
+    assert.deepEqual(second.conflicts, [
+        {object: "door", field: "state", was: "locked", now: "open", mention: "The door swings open", turn: 5, prior: {mention: "locks the door", turn: 3}},
+        {object: "cup", field: "contents", was: "coffee", now: "wine", mention: "takes a sip of wine from her cup", turn: 5, prior: {mention: "pours coffee into her cup", turn: 3}},
+    ]);
+    assert.equal(describeObjectConflict(second.conflicts[0]), 'the door was locked (turn 3: "locks the door") but now "The door swings open"');
+
+    const fair = updateObjectLedger(first.objects, "She unlocks the door and opens the door. She refills her cup with wine and sips wine from her cup.", {turn: 5});
+    assert.deepEqual(fair.conflicts, []);
+    assert.equal(updateObjectLedger(first.objects, "At the station, the door is open.", {turn: 6, moved: true}).conflicts.length, 0);
+});
+
+test("updateObjectLedger: draining a vessel clears its contents", () => {
+    const filled = updateObjectLedger(null, "Mara fills her cup with wine.", {turn: 1, names: ["Mara"]});
+    assert.equal(filled.objects.cup.contents, "wine");
+    const drained = updateObjectLedger(filled.objects, "She drains her cup.", {turn: 2});
+    assert.equal(drained.objects.cup.contents, undefined);
+    // A bare mention of a vessel is not an emptying.
+    assert.equal(updateObjectLedger(filled.objects, "A mug sits by the sink.", {turn: 2}).objects.cup.contents, "wine");
+    const refilled = updateObjectLedger(drained.objects, "Later she sips coffee from her cup.", {turn: 4});
+    assert.deepEqual(refilled.conflicts, []);
+    assert.equal(refilled.objects.cup.contents, "coffee");
+
+    const de = resolveLexicon([], "de").lexicon;
+    const full = updateObjectLedger(null, "Mara füllt ihre Tasse mit Kaffee.", {turn: 1, names: ["Mara"]}, de);
+    assert.equal(full.objects.tasse?.contents, "kaffee");
+    assert.equal(updateObjectLedger(full.objects, "Sie trinkt ihre Tasse aus.", {turn: 2}, de).objects.tasse.contents, undefined);
+});
+
 test("updateSceneFromMessage: tuned place heads enable safe no-article locations", () => {
     const scene = updateSceneFromMessage(
         null,
@@ -221,3 +426,329 @@ test("updateSceneFromMessage: can resolve only the latest unresolved beat", () =
     assert.ok(Array.isArray(s3.unresolvedBeats));
     assert.equal(s3.unresolvedBeats!.length, 1);
 });
+
+test("analyzeUserMessage: runs snapshot, signals, scars and proximity on first-person turns", () => {
+    const res = analyzeUserMessage("I confess I lied to you. I step closer and take your hand.", {proximity: "Distant"});
+    assert.equal(res.signals.some((s) => s.type === "emotional_disclosure" && s.source === "user"), true);
+    assert.equal(res.scarEvents.includes("betrayal"), true);
+    assert.equal(res.proximity.next, "Touching");
+    assert.equal(res.proximity.evidence.includes("Nearby"), true);
+});
+
+test("evaluateEmotionalDelta: user-led tone shift is discounted", () => {
+    const current = {tone: "sad", intensity: "medium"} as const;
+    const recent = Array.from({length: 5}, () => ({tone: "neutral", intensity: "low"} as const));
+    const alone = evaluateEmotionalDelta(current, recent, "I regret this.");
+    const led = evaluateEmotionalDelta(current, recent, "I regret this.", {userSnapshot: {tone: "sad", intensity: "medium"}});
+    assert.equal(alone.detected, true);
+    assert.equal(led.detected, false);
+    assert.ok(led.reasons.some((r) => r.label === "user_led_shift"));
+});
+
+test("evaluatePhaseRegression: rejection scar lowers the phase one step", () => {
+    const res = evaluatePhaseRegression({phase: "Charged", content: "She turns you down.", scarEvents: ["rejection"], recentEmotions: [], turnsSinceSignal: 0});
+    assert.equal(res.regressed, true);
+    assert.equal(res.next, "Familiar");
+});
+
+test("evaluatePhaseRegression: explicit distancing and cold stretches regress; Neutral is the floor", () => {
+    const distancing = evaluatePhaseRegression({phase: "Familiar", content: "\"I need some space.\"", scarEvents: [], recentEmotions: [], turnsSinceSignal: 0});
+    assert.equal(distancing.next, "Neutral");
+
+    const cold = Array.from({length: 4}, () => ({tone: "tense", intensity: "low"} as const));
+    const stretch = evaluatePhaseRegression({phase: "Intimate", content: "He nods.", scarEvents: [], recentEmotions: cold, turnsSinceSignal: 8});
+    assert.equal(stretch.next, "Charged");
+    assert.ok(stretch.reasons.some((r) => r.label === "cold_stretch"));
+
+    const floor = evaluatePhaseRegression({phase: "Neutral", content: "It's over.", scarEvents: ["rejection"], recentEmotions: [], turnsSinceSignal: 0});
+    assert.equal(floor.regressed, false);
+});
+
+test("detectPostRegressionCarryOn: flags old-level intimacy unless a repair beat appears", () => {
+    const regression = {from: "Charged" as const, to: "Familiar" as const, turn: 1, reasons: ["rejection"]};
+    const love = detectEscalationSignals("I love you.", {tone: "affection", intensity: "medium"});
+    const carry = detectPostRegressionCarryOn({regression, content: "I love you.", signals: love});
+    assert.match(carry.note || "", /carries on at the old Charged level/);
+
+    const repaired = detectPostRegressionCarryOn({regression, content: "I'm so sorry. I love you.", signals: love});
+    assert.equal(repaired.note, null);
+    assert.equal(repaired.repaired, true);
+});
+
+test("evaluateProximityTransition: pulling away and leaving lowers proximity", () => {
+    const res = evaluateProximityTransition("She pulls away and walks to the door.", "Touching");
+    assert.equal(res.next, "Distant");
+    assert.equal(res.direction, "retreat");
+    assert.equal(res.changed, true);
+    assert.equal(res.skipped, false);
+
+    const letGo = evaluateProximityTransition("He lets go of your hand.", "Touching");
+    assert.equal(letGo.next, "Nearby");
+
+    const held = evaluateProximityTransition("He doesn't let go of your hand.", "Touching");
+    assert.equal(held.next, "Touching");
+    assert.equal(held.changed, false);
+});
+
+test("evaluateProximityTransition: re-approaching after separation is not a skip", () => {
+    const apart = evaluateProximityTransition("They are in different rooms now.", "Nearby");
+    assert.equal(apart.next, "Distant");
+    const back = evaluateProximityTransition("He steps closer again and takes your hand.", apart.next);
+    assert.equal(back.next, "Touching");
+    assert.equal(back.skipped, false);
+    assert.equal(back.direction, "forward");
+});
+
+test("extractEmotionSnapshot: carries valence/arousal/dominance from weighted hits", () => {
+    const angry = extractEmotionSnapshot("He glares at you, furious, and shouts.");
+    assert.equal(angry.tone, "angry");
+    assert.ok((angry.valence ?? 0) < -0.5);
+    assert.ok((angry.arousal ?? 0) > 0.8);
+    assert.ok((angry.dominance ?? 0) > 0.3);
+
+    const tender = extractEmotionSnapshot("She smiles softly, tender and fond.");
+    assert.ok((tender.valence ?? 0) > 0.5);
+    assert.ok((tender.arousal ?? 1) < (angry.arousal ?? 0));
+});
+
+test("evaluateEmotionalDelta: VAD distance separates tense -> angry from affection -> angry", () => {
+    const angry: EmotionSnapshot = {tone: "angry", intensity: "medium"};
+    const fromTense = evaluateEmotionalDelta(angry, [0, 1, 2].map(() => ({tone: "tense", intensity: "medium"} as EmotionSnapshot)));
+    const fromAffection = evaluateEmotionalDelta(angry, [0, 1, 2].map(() => ({tone: "affection", intensity: "medium"} as EmotionSnapshot)));
+    assert.ok(fromAffection.distance > fromTense.distance);
+    assert.ok(fromAffection.score > fromTense.score);
+    assert.equal(fromAffection.detected, true);
+    assert.equal(fromTense.detected, false);
+    // Snapshots persisted without coordinates fall back to the tone's lexicon position.
+    assert.deepEqual(emotionVad({tone: "sad", intensity: "low"}), {valence: -0.7, arousal: -0.3, dominance: -0.4});
+});
+
+test("extractEmotionSnapshot: mixed messages keep a secondary tone and mix ratio", () => {
+    const bittersweet = extractEmotionSnapshot("She smiles through her tears, fond of the memory but heartbroken that it is over.");
+    assert.equal(bittersweet.tone, "sad");
+    assert.equal(bittersweet.secondaryTone, "affection");
+    assert.ok((bittersweet.mix ?? 1) > 0.5 && (bittersweet.mix ?? 1) < 1);
+
+    const plain = extractEmotionSnapshot("She smiles softly, tender and fond.");
+    assert.equal(plain.secondaryTone, null);
+    assert.equal(plain.mix, 1);
+});
+
+test("evaluateEmotionalDelta/detectDrift: a 60/40 -> 40/60 blend swap is not a tone change", () => {
+    const a: EmotionSnapshot = {tone: "affection", intensity: "medium", secondaryTone: "anxious", mix: 0.6};
+    const b: EmotionSnapshot = {tone: "anxious", intensity: "medium", secondaryTone: "affection", mix: 0.6};
+    assert.equal(blendOverlap(a, b), 0.8);
+
+    const delta = evaluateEmotionalDelta(b, [a, a, a]);
+    assert.equal(delta.detected, false);
+    assert.ok(!delta.reasons.some((r) => r.label === "tone_changed"));
+
+    const drift = detectDrift({
+        recentEmotions: [a, b, a, b],
+        phaseHistory: [{phase: "Neutral", at: 1}, {phase: "Neutral", at: 2}],
+        strictness: 2,
+        turnIndex: 10,
+        driftNotes: [],
+    });
+    assert.ok(drift);
+});
+
+test("modalityAt: marks conditional, wish, dream, question and future frames", () => {
+    const at = (text: string, word: string) => modalityAt(text, text.indexOf(word));
+    assert.equal(at("If you kissed me, I'd melt.", "kissed"), "conditional");
+    assert.equal(at("She wishes she could hold you.", "hold"), "wish");
+    assert.equal(at("She imagines holding your hand.", "holding"), "dream");
+    assert.equal(at("\"Can I hug you?\" she asks.", "hug"), "question");
+    assert.equal(at("Maybe someday, we'll hold hands.", "hold"), "future");
+    assert.equal(at("She hugs you, then asks: \"are you okay?\"", "hugs"), null);
+    assert.equal(at("He wishes he could stay, but he steps back.", "steps"), null);
+});
+
+test("detectEscalationSignals: modal matches become a discounted anticipation signal", () => {
+    const text = "Someday I will tell you I love you.";
+    const signals = detectEscalationSignals(text, extractEmotionSnapshot(text));
+    assert.deepEqual(signals.map((s) => [s.type, s.anticipates, s.modality]), [["anticipation", "love_confession", "future"]]);
+    assert.ok(signals[0].weight < 3);
+
+    const stated = "I love you. If you asked, I would tell you I love you.";
+    const both = detectEscalationSignals(stated, extractEmotionSnapshot(stated));
+    assert.deepEqual(both.map((s) => s.type), ["love_confession"]);
+});
+
+test("evaluateProximityTransition/detectMemoryEvents: hypothetical moves are not state changes", () => {
+    const wish = evaluateProximityTransition("She wants to take your hand.", "Nearby");
+    assert.equal(wish.changed, false);
+    assert.deepEqual(wish.anticipated, ["Touching"]);
+
+    const real = evaluateProximityTransition("She takes your hand.", "Nearby");
+    assert.equal(real.next, "Touching");
+    assert.deepEqual(real.anticipated, []);
+
+    assert.deepEqual(detectMemoryEvents("If you ever lied to me, I would leave."), []);
+    assert.deepEqual(detectMemoryEvents("Did you cheat on me?"), []);
+    assert.deepEqual(detectMemoryEvents("You cheated on me."), ["betrayal"]);
+});
+
+test("maskRecollections: memories do not move the scene or proximity and are not new scars", () => {
+    const text = "In the kitchen, she remembers that night on the beach when he kissed her on the lips.";
+    const {spans} = maskRecollections(text);
+    assert.equal(spans.length, 1);
+    assert.match(spans[0].text, /^remembers that night on the beach/);
+
+    const scene = updateSceneFromMessage(null, text, {tone: "sad", intensity: "low"});
+    assert.equal(scene.location, "kitchen");
+    assert.equal(scene.timeOfDay, undefined);
+    assert.equal(evaluateProximityTransition(text, "Nearby").changed, false);
+    assert.deepEqual(detectEscalationSignals(text, extractEmotionSnapshot(text)), []);
+    assert.deepEqual(detectMemoryEvents("He had lied to you for years."), []);
+});
+
+test("recollectionCallbacks: links recalled moments to earlier scars and milestones", () => {
+    const scars = [{event: "betrayal", text: "He lied to you.", at: 5}, {event: "conflict", text: "They argue.", at: 9}];
+    const {spans} = maskRecollections("She stirs her tea. She recalls the day he lied to you. Years ago he kissed her on the lips.");
+    const callbacks = recollectionCallbacks(spans, scars, null, 42);
+    assert.equal(callbacks.length, 2);
+    assert.deepEqual([callbacks[0].scar, callbacks[0].scarAt, callbacks[0].at], ["betrayal", 5, 42]);
+    assert.deepEqual(callbacks[1].milestones, ["physical_intimacy"]);
+    assert.equal(callbacks[1].scar, undefined);
+});
+
+test("seedEmotionBaseline/updateEmotionBaseline: temperament seeds intensity, messages roll the tone mix", () => {
+    const stoic = seedEmotionBaseline("A stoic, reserved knight who rarely speaks.");
+    assert.equal(stoic.seeded, true);
+    assert.equal(stoic.intensity, 0.25);
+    assert.equal(seedEmotionBaseline("A bubbly, cheerful barista.").intensity, 1.3);
+    assert.equal(seedEmotionBaseline("").seeded, false);
+
+    let rolling = createEmotionBaseline();
+    for (let i = 0; i < 6; i++) rolling = updateEmotionBaseline(rolling, {tone: "excited", intensity: "high"});
+    assert.equal(rolling.samples, 6);
+    assert.equal(rolling.tones.excited, 1);
+    assert.equal(rolling.intensity, 2);
+});
+
+test("evaluateEmotionalDelta: deviations are scored against the character baseline", () => {
+    const calm = [0, 1, 2].map(() => ({tone: "neutral", intensity: "low"} as EmotionSnapshot));
+    const smile: EmotionSnapshot = {tone: "affection", intensity: "low"};
+    assert.equal(evaluateEmotionalDelta(smile, calm).detected, false);
+    const stoic = evaluateEmotionalDelta(smile, calm, "", {baseline: seedEmotionBaseline("Stoic and reserved.")});
+    assert.equal(stoic.detected, true);
+    assert.ok(stoic.reasons.some((r) => r.label === "out_of_character_tone"));
+
+    const hyped = [0, 1, 2].map(() => ({tone: "excited", intensity: "high"} as EmotionSnapshot));
+    const grin: EmotionSnapshot = {tone: "affection", intensity: "medium"};
+    assert.equal(evaluateEmotionalDelta(grin, hyped).detected, true);
+    const bubbly: EmotionBaseline = {tones: {excited: 0.6, affection: 0.4}, intensity: 1.3, samples: 12, seeded: true};
+    const noise = evaluateEmotionalDelta(grin, hyped, "", {baseline: bubbly});
+    assert.equal(noise.detected, false);
+    assert.deepEqual(noise.deviation, {toneShare: 0.4, intensity: -0.3});
+});
+
+test("storyTimeAdvance: narrated skips move the story clock; dialogue and memories do not", () => {
+    assert.equal(storyTimeAdvance("An hour later, she knocks on his door."), 120);
+    assert.equal(storyTimeAdvance("The next morning, and three weeks later still, he thinks of it."), 20160);
+    assert.equal(storyTimeAdvance("\"Come back a week later,\" she says."), 0);
+    assert.equal(storyTimeAdvance("She remembers how, days later, he finally called."), 0);
+    assert.equal(analyzeUserMessage("Months later, I see her again.").storyMinutes, 43200);
+});
+
+test("evaluatePhasePacing: either clock can meet the dwell budget; regressions restart the climb", () => {
+    const rushed = evaluatePhasePacing({phase: "Charged", phaseHistory: [], turn: 3, storyMinutes: 0});
+    assert.deepEqual(rushed.budget, {turns: 9, minutes: 270});
+    assert.equal(rushed.rushed, true);
+    assert.equal(rushed.turnsAhead, 6);
+    assert.equal(rushed.score, 0.33);
+    assert.match(describeRushedPhase(rushed) || "", /Charged reached 6 turns \/ 5 hours of story time ahead of the Slow burn budget/);
+    assert.match(describeRushedPhase(rushed, BUILTIN_LADDERS.enemies_to_lovers) || "", /ahead of the Enemies to lovers budget/);
+
+    const skipped = evaluatePhasePacing({phase: "Charged", phaseHistory: [], turn: 3, storyMinutes: 10080});
+    assert.equal(skipped.rushed, false);
+    assert.equal(describeRushedPhase(skipped), null);
+
+    const afterRegression = evaluatePhasePacing({
+        phase: "Charged",
+        phaseHistory: [{phase: "Charged", at: 1, direction: "up", turn: 12}, {phase: "Familiar", at: 2, direction: "down", turn: 20}],
+        turn: 22,
+        storyMinutes: 0,
+        scale: 0.5,
+    });
+    assert.equal(afterRegression.from, "Familiar");
+    assert.deepEqual(afterRegression.budget, {turns: 3, minutes: 120});
+    assert.equal(afterRegression.turnsAhead, 1);
+});
+
+test("updateRelationshipAxes: signals, scars, repairs and consent issues move separate axes", () => {
+    const flirt = "You're beautiful. He kisses you on the lips.";
+    const attracted = updateRelationshipAxes(null, {content: flirt, signals: detectEscalationSignals(flirt, extractEmotionSnapshot(flirt))});
+    assert.ok(attracted.axes.attraction > createRelationshipAxes().attraction);
+    assert.equal(attracted.axes.trust, createRelationshipAxes().trust);
+
+    // A wished-for kiss moves attraction a quarter as far as a kiss.
+    const kiss = "He kisses you on the lips.";
+    const wish = "She wishes he would kiss her on the lips.";
+    const kissed = updateRelationshipAxes(null, {content: kiss, signals: detectEscalationSignals(kiss, extractEmotionSnapshot(kiss))});
+    const wished = updateRelationshipAxes(null, {content: wish, signals: detectEscalationSignals(wish, extractEmotionSnapshot(wish))});
+    assert.deepEqual(kissed.changes, [{label: "attraction", weight: 6}, {label: "tension", weight: 3}]);
+    assert.deepEqual(wished.changes, [{label: "attraction", weight: 1.5}, {label: "tension", weight: 0.75}]);
+
+    const betrayed = updateRelationshipAxes(attracted.axes, {content: "I lied to you.", scarEvents: ["betrayal"], consentIssues: ["coercive physical action"]});
+    assert.equal(betrayed.axes.trust, 0);
+    assert.equal(betrayed.axes.attraction, attracted.axes.attraction);
+    assert.deepEqual(betrayed.changes.map((c) => c.label), ["trust", "tension", "comfort"]);
+
+    const repaired = updateRelationshipAxes(betrayed.axes, {content: "\"I'm sorry. I was wrong,\" he says quietly."});
+    assert.ok(repaired.axes.trust > 0);
+    assert.ok(repaired.axes.tension < betrayed.axes.tension);
+});
+
+test("detectAxisMismatch: intimacy rising on low trust is flagged; steady turns are not", () => {
+    const axes = {trust: 10, attraction: 70, tension: 50, comfort: 15};
+    const kiss = detectEscalationSignals("He kisses you on the lips.", {tone: "affection", intensity: "medium"});
+    const mismatch = detectAxisMismatch({axes, signals: kiss, proximity: "Intimate", advanced: true});
+    assert.match(mismatch.note || "", /intimacy is rising while trust is low \(trust 10, attraction 70\)/);
+    assert.match(mismatch.note || "", /without comfort/);
+    assert.equal(mismatch.score, 5);
+    assert.equal(detectAxisMismatch({axes, phase: "Intimate", proximity: "Intimate"}).note, null);
+    assert.equal(detectAxisMismatch({axes: createRelationshipAxes(), signals: kiss}).note, null);
+});
+
+test("scoreUnresolvedBeatReminder: high tension and low trust weigh softening over a beat", () => {
+    const scene = {unresolvedBeats: [{id: "b1", snippet: "Why did you lie to me?", createdAt: 1, lastSeenAt: 1}]};
+    const params = {scene, content: "He hugs you tenderly.", snapshot: {tone: "affection", intensity: "low"} as EmotionSnapshot};
+    const calm = scoreUnresolvedBeatReminder(params);
+    const wary = scoreUnresolvedBeatReminder({...params, axes: {trust: 10, attraction: 40, tension: 70, comfort: 30}});
+    assert.equal(wary.score, calm.score + 2);
+    assert.deepEqual(wary.reasons.slice(-2).map((r) => r.label), ["high_tension", "low_trust"]);
+});
+
+test("detectStopIntent: safe words and stop phrases only count out of character", () => {
+    const words = ["red", "stop"];
+    assert.deepEqual(detectStopIntent("Red.", words), {kind: "safe_word", trigger: "red"});
+    assert.deepEqual(detectStopIntent("I lean closer. (red)", words), {kind: "safe_word", trigger: "red"});
+    assert.deepEqual(detectStopIntent("*nods*\nOOC: stop", words), {kind: "safe_word", trigger: "stop"});
+    assert.equal(detectStopIntent("She smooths her red dress and tells him to stop teasing.", words), null);
+    assert.equal(detectStopIntent("Red.", []), null);
+    assert.equal(detectStopIntent("I grab his wrist.\n\"Stop!\"\nShe laughs.", words), null);
+    assert.equal(detectStopIntent("“Red,” she whispers.\n“Red.”", words), null);
+    assert.deepEqual(detectStopIntent("Stop.", words), {kind: "safe_word", trigger: "stop"});
+    assert.deepEqual(detectStopIntent("(stop)", words), {kind: "safe_word", trigger: "stop"});
+    assert.equal(detectStopIntent("Honestly I'm not comfortable with where this is going.", [])?.kind, "stop_intent");
+    assert.equal(detectStopIntent("Can we stop here?", [])?.trigger, "Can we stop here");
+    assert.equal(detectStopIntent("*She leans in and whispers something I can't hear.* (I'm not comfortable with this, can we stop the scene?)", [])?.kind, "stop_intent");
+    assert.equal(detectStopIntent("I walk over.\nOOC: please stop", [])?.trigger, "please stop");
+
+    // In-story uses of "stop" and "not comfortable", and stop phrases inside dialogue or long narration.
+    for (const content of [
+        "Let's stop at the café for coffee.",
+        "\"Please stop,\" she giggles.",
+        "I don't like this weather much.",
+        "I'm not comfortable in these shoes.",
+        "I pull her closer, and as the music swells I murmur that I'm not comfortable with this and she laughs and keeps dancing with me anyway.",
+    ]) {
+        assert.equal(detectStopIntent(content, []), null, content);
+    }
+    const es = resolveLexicon([], "es").lexicon;
+    assert.equal(detectStopIntent("Paremos en la posada para cenar.", [], es), null);
+    assert.equal(detectStopIntent("(paremos aquí, por favor)", [], es)?.kind, "stop_intent");
+    assert.equal(detectStopIntent("On arrête au café avant de rentrer.", [], resolveLexicon([], "fr").lexicon), null);
+});
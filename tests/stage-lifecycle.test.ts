@@ -2,6 +2,7 @@ import test from "node:test";
 import assert from "node:assert/strict";
 import {Stage} from "../src/Stage";
 import {transcripts} from "./fixtures/transcripts";
+import {transcripts_es} from "./fixtures/transcripts_es";
 
 function makeStage(config: any = {}, messageState: any = null, chatState: any = null) {
     return new Stage({
@@ -21,6 +22,41 @@ test("Stage.load: returns success and initial state", async () => {
     assert.ok(res.messageState);
 });
 
+test("Stage.load: seeds the opening scene and relationship history from the character card", async () => {
+    const characters = {c1: {
+        anonymizedId: "c1",
+        name: "Mara",
+        scenario: "{{char}} and {{user}} are ex-lovers. It is evening at the station.",
+        first_message: "Mara waits, arms folded, and does not look up.",
+    }};
+    const make = (config: any, messageState: any = null, initState: any = null, cards: any = characters) => new Stage({
+        characters: cards, users: {u1: {anonymizedId: "u1", name: "Sam"}}, config, messageState, chatState: null, initState,
+    } as any);
+
+    const stage = make({ui_enabled: 0});
+    const res: any = await stage.load();
+    assert.equal(res.initState.initialScene.location, "station");
+    assert.equal(res.initState.initialScene.timeOfDay, "evening");
+    assert.equal(res.chatState.scene.location, "station");
+    assert.equal(stage.myInternalState.phase, "Familiar");
+    assert.equal(stage.myInternalState.proximity, "Distant");
+    assert.deepEqual((stage.myInternalState.memoryScars || []).map((s) => s.event), ["rejection"]);
+    assert.equal(stage.myInternalState.phaseHistory?.[0]?.reason, "card history: ex lovers");
+    assert.equal(stage.myInternalState.relationships?.c1?.phase, "Familiar");
+
+    // A G rating caps the seeded phase; a chat with messages keeps its own relationship but gets the saved scene.
+    const married = {c2: {anonymizedId: "c2", name: "Ines", scenario: "{{char}} and {{user}} have been married for ten years."}};
+    const capped = make({ui_enabled: 0, content_rating: "G"}, null, null, married);
+    await capped.load();
+    assert.equal(capped.myInternalState.phase, "Familiar");
+    assert.equal(capped.myInternalState.proximity, "Nearby");
+    const resumed = make({ui_enabled: 0}, {phase: "Neutral", proximity: "Nearby"}, res.initState);
+    const again: any = await resumed.load();
+    assert.equal(resumed.myInternalState.phase, "Neutral");
+    assert.equal(again.initState.createdAt, res.initState.createdAt);
+    assert.equal(again.chatState.scene.location, "station");
+});
+
 test("Stage.beforePrompt: injects pendingPromptNotes one-shot (system prompt only)", async () => {
     const stage = makeStage({
         strictness: 3,
@@ -54,6 +90,37 @@ test("Stage.afterResponse: updates scene and survives setState (swipe/jump)", as
     assert.equal(chatStateAfter?.scene?.location, "kitchen");
 });
 
+test("Stage.afterResponse: flashbacks keep the present scene and are logged as callbacks", async () => {
+    const stage = makeStage({strictness: 3, ui_enabled: 0});
+    await stage.afterResponse({content: transcripts.scene_persistence.botTurns[0]} as any);
+    await stage.afterResponse({content: "She sets the cup down and remembers that summer on the beach when he kissed her on the lips."} as any);
+
+    assert.equal((stage as any)._chatState?.scene?.location, "kitchen");
+    assert.equal(stage.myInternalState.proximity, "Distant");
+    const callbacks = stage.myInternalState.callbacks || [];
+    assert.equal(callbacks.length, 1);
+    assert.deepEqual(callbacks[0].milestones, ["physical_intimacy"]);
+});
+
+test("Stage.afterResponse: a stoic character's first smile is flagged against the card-seeded baseline", async () => {
+    const characters = {c1: {anonymizedId: "c1", name: "Aldric", personality: "Stoic and reserved.", description: "A knight of few words."}};
+    const stage = new Stage({
+        characters,
+        users: {},
+        config: {strictness: 2, ui_enabled: 0, prompt_injection_enabled: 1, prompt_injection_include_scene: 0},
+        messageState: null,
+        chatState: {scene: null},
+        initState: null,
+    } as any);
+    for (const content of ["He nods and checks the map.", "He reads the report.", "He points at the road ahead."]) {
+        await stage.afterResponse({content} as any);
+    }
+    assert.equal(stage.myInternalState.pendingPromptNotes ?? null, null);
+    await stage.afterResponse({content: "He smiles at you."} as any);
+    assert.ok(stage.myInternalState.emotionBaseline?.seeded);
+    assert.match((stage.myInternalState.pendingPromptNotes?.parts || []).join(" "), /abrupt emotional shift/i);
+});
+
 test("Stage.afterResponse: whiplash spikes queue prompt injection and respect max chars", async () => {
     const stage = makeStage({
         strictness: 3,
@@ -90,6 +157,249 @@ test("Stage.afterResponse: phase/proximity skips queue guidance", async () => {
     assert.match(res.systemMessage as string, /relationship signals suggest/i);
 });
 
+test("Stage.afterResponse: the enemies-to-lovers ladder starts hostile and words its own skip warning", async () => {
+    const stage = makeStage({
+        strictness: 3,
+        ui_enabled: 0,
+        prompt_injection_enabled: 1,
+        prompt_injection_include_scene: 0,
+        relationship_ladder: "enemies_to_lovers",
+    });
+    assert.equal(stage.myInternalState.phase, "Hostile");
+
+    await stage.afterResponse({content: transcripts.phase_and_proximity_skip.botTurns[0]} as any);
+    assert.equal(stage.myInternalState.phase, "Grudging");
+    const parts = stage.myInternalState.pendingPromptNotes?.parts || [];
+    assert.ok(parts.some((p: string) => /rivalry jumps from Hostile to Intimate \(missing: Grudging → Rivals → Charged\)/.test(p)));
+});
+
+test("Stage.afterResponse: a flurry of signals is flagged as rushed unless story time has passed", async () => {
+    const config = {strictness: 2, ui_enabled: 0, prompt_injection_enabled: 1, prompt_injection_include_scene: 0, tune_phase_weight_threshold: 2};
+    const rushed = makeStage(config);
+    await rushed.afterResponse({content: "\"I feel like I can tell you anything. You're beautiful,\" he admits."} as any);
+    assert.equal(rushed.myInternalState.phase, "Familiar");
+    assert.equal(rushed.myInternalState.phaseHistory?.slice(-1)[0]?.turn, 1);
+    assert.equal(rushed.myInternalState.pacing?.rushed, true);
+    const parts = rushed.myInternalState.pendingPromptNotes?.parts || [];
+    assert.ok(parts.some((p: string) => /pacing: Familiar reached 2 turns/.test(p)));
+
+    const earned = makeStage(config);
+    await earned.beforePrompt({content: "Weeks later, I find him at the café again."} as any);
+    await earned.afterResponse({content: "\"I feel like I can tell you anything. You're beautiful,\" he admits."} as any);
+    assert.equal(earned.myInternalState.phase, "Familiar");
+    assert.equal(earned.myInternalState.storyMinutes, 20160);
+    assert.equal(earned.myInternalState.pacing?.rushed, false);
+});
+
+test("Stage.afterResponse: relationship axes track betrayal and flag intimacy on low trust", async () => {
+    const stage = makeStage({
+        strictness: 3,
+        ui_enabled: 0,
+        prompt_injection_enabled: 1,
+        prompt_injection_include_scene: 0,
+        prompt_injection_max_parts: 6,
+    });
+    await stage.afterResponse({content: "I have to tell you something. I lied to you, and I kept it from you."} as any);
+    const afterBetrayal = stage.myInternalState.axes;
+    assert.ok(afterBetrayal && afterBetrayal.trust < 10);
+
+    await stage.afterResponse({content: "He kisses you on the lips and pulls you close."} as any);
+    assert.ok((stage.myInternalState.axes?.attraction || 0) > (afterBetrayal?.attraction || 0));
+    const parts = stage.myInternalState.pendingPromptNotes?.parts || [];
+    assert.ok(parts.some((p: string) => /intimacy is rising while trust is low/.test(p)));
+});
+
+test("Stage.beforePrompt: OOC realism commands update state, are acknowledged and never reach the detectors", async () => {
+    const stage = makeStage({strictness: 2, ui_enabled: 1});
+    const res = await stage.beforePrompt({content: "((realism: phase Charged; strictness 3; mute subtext)) I kiss him on the lips."} as any);
+    assert.equal(res.modifiedMessage, "I kiss him on the lips.");
+    assert.equal(stage.myInternalState.phase, "Charged");
+    assert.equal(stage.myInternalState.phaseHistory?.slice(-1)[0]?.reason, "set by user");
+    assert.deepEqual(stage.myInternalState.commandOverrides, {strictness: 3, muted: ["subtext"]});
+    assert.equal((stage as any)._effectiveConfig.note_subtext, false);
+    const ack = (stage.myInternalState.overlayNotes || []).slice(-1)[0]?.text || "";
+    assert.match(ack, /Realism command: phase set to Charged; strictness 3; muted subtext/);
+    assert.equal(stage.myInternalState.proximity, "Intimate");
+
+    const commandOnly = makeStage({ui_enabled: 0});
+    const onlyCommands = await commandOnly.beforePrompt({content: "((realism: phase Intimate)) ((realism: pause))"} as any);
+    assert.equal(onlyCommands.modifiedMessage, null);
+    assert.deepEqual(commandOnly.myInternalState.signalHistory, []);
+    await commandOnly.afterResponse({content: "He kisses you on the lips and pulls you into a tight embrace."} as any);
+    assert.equal(commandOnly.myInternalState.proximity, "Distant");
+    assert.equal(commandOnly.myInternalState.pendingPromptNotes ?? null, null);
+    await commandOnly.beforePrompt({content: "((realism: resume))"} as any);
+    assert.equal(commandOnly.myInternalState.commandOverrides?.paused, false);
+
+    const beat = {id: "b1", snippet: "Why did you lie?", createdAt: 1, lastSeenAt: 1};
+    const withBeat = makeStage({ui_enabled: 0}, null, {scene: {unresolvedBeats: [beat]}});
+    await withBeat.beforePrompt({content: "((realism: resolve beat))"} as any);
+    assert.deepEqual((withBeat as any)._chatState.scene.unresolvedBeats, []);
+    assert.equal((withBeat as any)._chatState.scene.resolvedBeats[0].id, "b1");
+});
+
+test("Stage.beforePrompt: a safe word injects a critical de-escalation note and freezes the phase until resume", async () => {
+    const stage = makeStage({strictness: 3, ui_enabled: 0, prompt_injection_enabled: 0, tune_phase_weight_threshold: 1});
+    await stage.afterResponse({content: "He can't stop looking at you."} as any);
+    const phase = stage.myInternalState.phase;
+    const res = await stage.beforePrompt({content: "(red)"} as any);
+    assert.match(res.systemMessage as string, /SAFETY STOP: the user asked to stop \("red"\)/);
+    assert.equal(stage.myInternalState.safetyStop?.kind, "safe_word");
+    assert.equal(stage.myInternalState.pendingPromptNotes, null);
+
+    await stage.afterResponse({content: "\"I love you,\" he whispers, and he kisses you on the lips."} as any);
+    assert.equal(stage.myInternalState.phase, phase);
+
+    await stage.beforePrompt({content: "((realism: resume)) Okay, I'm ready to keep going."} as any);
+    assert.equal(stage.myInternalState.safetyStop, null);
+    await stage.afterResponse({content: "\"I love you,\" he whispers, and he kisses you on the lips."} as any);
+    assert.notEqual(stage.myInternalState.phase, phase);
+});
+
+test("Stage.beforePrompt: a stop-phrase safety stop lifts by itself after a few replies", async () => {
+    const stage = makeStage({strictness: 3, ui_enabled: 0, prompt_injection_enabled: 0});
+    await stage.beforePrompt({content: "(I'm not comfortable with this.)"} as any);
+    assert.equal(stage.myInternalState.safetyStop?.kind, "stop_intent");
+    for (let i = 0; i < 5; i++) {
+        assert.ok(stage.myInternalState.safetyStop);
+        await stage.afterResponse({content: "He nods and steps back."} as any);
+        await stage.beforePrompt({content: "I look out of the window."} as any);
+    }
+    assert.equal(stage.myInternalState.safetyStop, null);
+});
+
+test("Stage boundaries: hard limits raise critical notes, active limits are restated in the injected block", async () => {
+    const stage = makeStage({
+        strictness: 1,
+        ui_enabled: 0,
+        prompt_injection_enabled: 1,
+        boundaries: [{topic: "kissing", level: "hard", untilPhase: "Charged"}],
+    });
+    await stage.afterResponse({content: "He smiles and kisses you softly."} as any);
+    const parts = stage.myInternalState.pendingPromptNotes?.parts || [];
+    assert.match(parts.join("\n"), /Boundary crossed \(hard limit: no kissing before Charged, "kisses"\)/);
+
+    const res = await stage.beforePrompt({content: "((realism: limit soft jealousy)) I wave at the barista."} as any);
+    assert.match(res.systemMessage as string, /Boundaries: hard limits: no kissing before Charged; soft limits: no jealousy/);
+    assert.deepEqual(stage.myInternalState.commandOverrides?.boundaries?.map((b) => b.topic), ["kissing", "jealousy"]);
+
+    await stage.afterResponse({content: "His jaw tightens; he is jealous of the barista."} as any);
+    assert.equal(stage.myInternalState.pendingPromptNotes, null); // soft limits respect the quota (strictness 1 allows none)
+
+    await stage.beforePrompt({content: "((realism: unlimit all))"} as any);
+    const quiet = await stage.beforePrompt({content: "Hi."} as any);
+    assert.equal(quiet.systemMessage, null);
+});
+
+test("Stage content rating: phase and proximity stop at the ceiling and above-ceiling content is critical", async () => {
+    const stage = makeStage({strictness: 1, ui_enabled: 0, prompt_injection_enabled: 1, content_rating: "PG-13", tune_phase_weight_threshold: 1});
+    stage.myInternalState.phase = "Charged";
+    stage.myInternalState.proximity = "Touching";
+    await stage.afterResponse({content: "She pulls you close, undresses, and kisses you on the lips."} as any);
+    assert.equal(stage.myInternalState.phase, "Charged");
+    assert.equal(stage.myInternalState.proximity, "Touching");
+    const parts = stage.myInternalState.pendingPromptNotes?.parts || [];
+    assert.match(parts.join("\n"), /Above the PG-13 content ceiling \(physical intimacy; .*sexual content: "undresses"\)/);
+
+    const res = await stage.beforePrompt({content: "I smile."} as any);
+    assert.match(res.systemMessage as string, /Content rating: rated PG-13: fade to black before anything sexual/);
+
+    await stage.beforePrompt({content: "((realism: phase Intimate))"} as any);
+    assert.equal(stage.myInternalState.phase, "Charged");
+    assert.match((stage.myInternalState.overlayNotes || []).slice(-1)[0]?.text || "", /above the PG-13 content ceiling/);
+});
+
+test("Stage.afterResponse: an unexplained location jump raises scene_teleport with from/to", async () => {
+    const stage = makeStage({strictness: 3, ui_enabled: 1, ui_debug_scoring: 1});
+    await stage.afterResponse({content: "In the kitchen, she pours two cups of tea."} as any);
+    await stage.afterResponse({content: "On the rooftop, the wind tugs at her hair."} as any);
+    const teleport = stage.myInternalState.lastUiDebug?.candidates.find((c: any) => c.id === "scene_teleport");
+    assert.deepEqual(teleport?.debug, {from: "kitchen", to: "rooftop"});
+
+    await stage.beforePrompt({content: "Let's head back down to the kitchen."} as any);
+    await stage.afterResponse({content: "In the kitchen, the kettle is still warm."} as any);
+    assert.equal(stage.myInternalState.lastUiDebug?.candidates.some((c: any) => c.id === "scene_teleport"), false);
+});
+
+test("Stage.afterResponse: the time of day running backwards raises timeline_regression", async () => {
+    const stage = makeStage({strictness: 3, ui_enabled: 1, ui_debug_scoring: 1});
+    await stage.afterResponse({content: "It is midnight and the city is quiet."} as any);
+    await stage.afterResponse({content: "The afternoon light spills over the desk."} as any);
+    const flagged = stage.myInternalState.lastUiDebug?.candidates.find((c: any) => c.id === "timeline_regression");
+    assert.deepEqual(flagged?.debug, {from: "late_night", to: "afternoon", day: 1, timeOfDay: "afternoon"});
+});
+
+test("Stage.afterResponse: a time skip in the user's turn carries into the reply's timeline and surroundings", async () => {
+    const stage = makeStage({strictness: 3, ui_enabled: 1, ui_debug_scoring: 1});
+    await stage.afterResponse({content: "It is night and rain drums on the window."} as any);
+    await stage.beforePrompt({content: "The next morning, I wake up and stretch."} as any);
+    await stage.afterResponse({content: "Morning sun spills across the sheets under a clear sky."} as any);
+    const ids = (stage.myInternalState.lastUiDebug?.candidates || []).map((c: any) => c.id);
+    assert.equal(ids.includes("timeline_regression"), false);
+    assert.equal(ids.includes("environment_continuity"), false);
+    const scene = (stage as any)._chatState.scene;
+    assert.deepEqual({day: scene.timeline.day, daypart: scene.timeline.daypart}, {day: 2, daypart: "morning"});
+    assert.equal(scene.environment.weather, "clear");
+});
+
+test("Stage.afterResponse: a character who left the scene acting raises absent_character", async () => {
+    const stage = new Stage({
+        characters: {
+            a: {anonymizedId: "a", name: "Ava", isRemoved: false},
+            b: {anonymizedId: "b", name: "Bea", isRemoved: false},
+        },
+        users: {},
+        config: {strictness: 3, ui_enabled: 1, ui_debug_scoring: 1},
+        messageState: null,
+        chatState: {scene: null},
+        initState: null,
+    } as any);
+    await stage.afterResponse({content: "Bea grabs her coat and walks out without a word.", anonymizedId: "b"} as any);
+    assert.equal(stage.myInternalState.lastUiDebug?.candidates.some((c: any) => c.id === "absent_character"), false);
+    await stage.afterResponse({content: "Ava shrugs. \"Give her time,\" Bea says softly.", anonymizedId: "a"} as any);
+    const flagged = stage.myInternalState.lastUiDebug?.candidates.find((c: any) => c.id === "absent_character");
+    assert.deepEqual(flagged?.debug, {absent: ["Bea"], present: ["Ava"]});
+});
+
+test("Stage.afterResponse: contradicting the physical-state ledger raises continuity", async () => {
+    const stage = makeStage({strictness: 3, ui_enabled: 1, ui_debug_scoring: 1});
+    await stage.afterResponse({content: "She sets down the mug and shrugs off her coat."} as any);
+    await stage.afterResponse({content: "Still in her coat, she sets down the mug again."} as any);
+    const flagged = stage.myInternalState.lastUiDebug?.candidates.find((c: any) => c.id === "continuity");
+    assert.deepEqual(flagged?.debug, {breaks: [
+        {character: "character", kind: "worn_while_off", item: "coat"},
+        {character: "character", kind: "set_down_twice", item: "mug"},
+    ]});
+});
+
+test("Stage.afterResponse: a prop contradicting an earlier mention raises object_continuity", async () => {
+    const stage = makeStage({strictness: 3, ui_enabled: 1, ui_debug_scoring: 1});
+    await stage.afterResponse({content: "She switches off the lamp and curls up on the couch."} as any);
+    await stage.afterResponse({content: "The lamp glows softly beside her."} as any);
+    const flagged = stage.myInternalState.lastUiDebug?.candidates.find((c: any) => c.id === "object_continuity");
+    assert.deepEqual((flagged?.debug as any)?.conflicts[0], {
+        object: "lamp", field: "state", was: "off", now: "on", mention: "The lamp glows", turn: 2, prior: {mention: "switches off the lamp", turn: 1},
+    });
+});
+
+test("Stage.afterResponse: rain stopping with no narration raises environment_continuity", async () => {
+    const stage = makeStage({strictness: 3, ui_enabled: 1, ui_debug_scoring: 1});
+    await stage.afterResponse({content: "Rain pours down as she pulls you under the awning."} as any);
+    await stage.afterResponse({content: "She leans in under the cloudless sky and kisses you."} as any);
+    const flagged = stage.myInternalState.lastUiDebug?.candidates.find((c: any) => c.id === "environment_continuity");
+    assert.deepEqual((flagged?.debug as any)?.conflicts, [{attribute: "weather", was: "rain", now: "clear", evidence: "cloudless"}]);
+});
+
+test("Stage.setState: command overrides follow the branch", async () => {
+    const stage = makeStage({ui_enabled: 0});
+    await stage.beforePrompt({content: "((realism: mute drift))"} as any);
+    const branched = {...stage.myInternalState};
+    await stage.beforePrompt({content: "((realism: unmute drift))"} as any);
+    assert.equal((stage as any)._effectiveConfig.note_drift, true);
+    await stage.setState(branched);
+    assert.equal((stage as any)._effectiveConfig.note_drift, false);
+});
+
 test("Stage.afterResponse: scars log and recall emits a recall note", async () => {
     const stage = makeStage({
         strictness: 3,
@@ -146,3 +456,100 @@ test("Stage.afterResponse: unresolved beats are captured and can be surfaced as
     const res = await stage.beforePrompt({content: "next"} as any);
     assert.match(res.systemMessage as string, /Unresolved beat reminder/i);
 });
+
+test("Stage.beforePrompt: user moves set the baseline the bot reply is judged against", async () => {
+    const stage = makeStage({
+        strictness: 3,
+        ui_enabled: 0,
+        prompt_injection_enabled: 1,
+        prompt_injection_include_scene: 0,
+    });
+
+    await stage.beforePrompt({content: transcripts.user_led_proximity.userTurns![0]} as any);
+    assert.equal(stage.myInternalState.proximity, "Nearby");
+    assert.equal(stage.myInternalState.lastUserMove?.proximity, "Nearby");
+
+    await stage.afterResponse({content: transcripts.user_led_proximity.botTurns[0]} as any);
+    assert.equal(stage.myInternalState.proximity, "Touching");
+    const parts = stage.myInternalState.pendingPromptNotes?.parts || [];
+    assert.equal(parts.some((p: string) => /proximity jumped/i.test(p)), false);
+});
+
+test("Stage.beforePrompt: user confessions and betrayals are logged as scars", async () => {
+    const stage = makeStage({strictness: 2, ui_enabled: 0});
+    await stage.beforePrompt({content: "I have to tell you something. I lied to you."} as any);
+    const scars = stage.myInternalState.memoryScars || [];
+    assert.ok(scars.some((s: any) => s.event === "betrayal" && s.source === "user"));
+    assert.ok(scars.some((s: any) => s.event === "confession" && s.source === "user"));
+});
+
+test("Stage.afterResponse: relationship state is tracked per character in group chats", async () => {
+    const stage = new Stage({
+        characters: {
+            a: {anonymizedId: "a", name: "Ava", isRemoved: false},
+            b: {anonymizedId: "b", name: "Bea", isRemoved: false},
+        },
+        users: {},
+        config: {strictness: 3, ui_enabled: 1, prompt_injection_enabled: 1, prompt_injection_include_scene: 0},
+        messageState: null,
+        chatState: {scene: null},
+        initState: null,
+    } as any);
+
+    await stage.afterResponse({content: "Ava steps closer and takes your hand.", anonymizedId: "a"} as any);
+    assert.equal(stage.myInternalState.proximity, "Touching");
+
+    await stage.afterResponse({content: "Bea kisses you.", anonymizedId: "b"} as any);
+    assert.equal(stage.myInternalState.activeCharacterId, "b");
+    assert.equal(stage.myInternalState.relationships?.a?.proximity, "Touching");
+    assert.equal(stage.myInternalState.relationships?.b?.proximity, "Intimate");
+    const lastNote = (stage.myInternalState.overlayNotes || []).slice(-1)[0]?.text || "";
+    assert.match(lastNote, /^System note \(Bea\):/);
+    assert.match(lastNote, /proximity jumped Distant → Intimate/);
+
+    // Switching back restores Ava's pairing: a kiss from Touching is not a skip.
+    await stage.afterResponse({content: "Ava kisses you.", anonymizedId: "a"} as any);
+    assert.equal(stage.myInternalState.proximity, "Intimate");
+    const parts = stage.myInternalState.pendingPromptNotes?.parts || [];
+    assert.equal(parts.some((p: string) => /proximity jumped/i.test(p)), false);
+});
+
+test("Stage.afterResponse: rejection regresses the phase and flags carrying on at the old level", async () => {
+    const stage = makeStage({
+        strictness: 3,
+        ui_enabled: 0,
+        prompt_injection_enabled: 1,
+        prompt_injection_include_scene: 0,
+        prompt_injection_max_parts: 6,
+    }, {phase: "Charged", proximity: "Nearby", lastEmotions: [], memoryScars: [], overlayNotes: []});
+
+    await stage.afterResponse({content: transcripts.regression_after_rejection.botTurns[0]} as any);
+    assert.equal(stage.myInternalState.phase, "Familiar");
+    const last = (stage.myInternalState.phaseHistory || []).slice(-1)[0];
+    assert.equal(last?.direction, "down");
+    assert.match(last?.reason || "", /rejection/);
+
+    await stage.afterResponse({content: transcripts.regression_after_rejection.botTurns[1]} as any);
+    const parts = stage.myInternalState.pendingPromptNotes?.parts || [];
+    assert.ok(parts.some((p: string) => /carries on at the old Charged level/.test(p)));
+});
+
+test("Stage.afterResponse: auto-detected Spanish turns get whiplash and consent notes", async () => {
+    const stage = makeStage({strictness: 3, ui_enabled: 1, max_notes_per_20: 20});
+
+    for (const turn of transcripts_es.whiplash_spike.botTurns) {
+        await stage.afterResponse({content: turn} as any);
+    }
+    assert.equal(stage.myInternalState.detectedLanguage, "es");
+    assert.ok((stage.myInternalState.overlayNotes || []).some((n: any) => /abrupt emotional shift/i.test(n.text)));
+
+    await stage.afterResponse({content: transcripts_es.consent_coercion.botTurns[0]} as any);
+    assert.ok((stage.myInternalState.overlayNotes || []).some((n: any) => /coercive physical action/.test(n.text)));
+});
+
+test("Stage: a fixed language setting skips detection", async () => {
+    const stage = makeStage({language: "de"});
+    await stage.afterResponse({content: transcripts_es.whiplash_spike.botTurns[0]} as any);
+    assert.equal(stage.myInternalState.detectedLanguage, undefined);
+    assert.equal(stage.myInternalState.lastEmotions?.slice(-1)[0]?.tone, "neutral");
+});